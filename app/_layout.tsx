@@ -1,14 +1,27 @@
+import { View, StyleSheet } from "react-native";
 import { Stack } from "expo-router";
 import { AudioProvider } from "@/services/audioContext";
+import MiniPlayer from "@/components/MiniPlayer";
+import { colors } from "@/constants/theme";
 
 export default function RootLayout() {
   return (
     <AudioProvider>
-      <Stack
-        screenOptions={{
-          headerShown: false,
-        }}
-      />
+      <View style={styles.container}>
+        <Stack
+          screenOptions={{
+            headerShown: false,
+          }}
+        />
+        <MiniPlayer />
+      </View>
     </AudioProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.darkGrey,
+  },
+});
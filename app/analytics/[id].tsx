@@ -144,6 +144,12 @@ export default function BookAnalyticsScreen() {
                   : "—"}
             </Text>
           </View>
+          {book.silence_trimmed_ms > 0 && (
+            <View style={styles.statCard}>
+              <Text style={styles.statLabel}>Saved by Trimming Silence</Text>
+              <Text style={styles.statValue}>{formatDuration(book.silence_trimmed_ms)}</Text>
+            </View>
+          )}
         </View>
 
         {/* Completion Details */}
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import {
   View,
   Text,
@@ -7,22 +7,52 @@ import {
   StatusBar,
   ScrollView,
   Image,
+  Modal,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { BarChart } from "react-native-gifted-charts";
 import { colors } from "@/constants/theme";
+import ListeningHeatmap from "@/components/ListeningHeatmap";
+import GoalRing from "@/components/GoalRing";
 import {
   BookHistory,
+  DailyListening,
+  DateRange,
   getAllBookHistory,
   getFilteredBookHistory,
   getCompletionsPerMonth,
   getTotalListeningTime,
   getTotalListeningTimeForBook,
+  getDailyListeningStats,
+  getDailyListeningInRange,
 } from "@/services/database";
+import { HistoryExportFormat, buildHistoryExport, saveHistoryExport } from "@/services/historyExport";
+import { usePreferences } from "@/services/preferences";
+import { computeStreaks } from "@/services/streaks";
+import { toLocalDateString } from "@/services/dates";
 
 type FilterTab = "all" | "year" | "month";
+type ExportRangePreset = "month" | "year" | "last_year" | "all" | "custom";
+
+const EXPORT_RANGE_PRESETS: { key: ExportRangePreset; label: string }[] = [
+  { key: "month", label: "This Month" },
+  { key: "year", label: "This Year" },
+  { key: "last_year", label: "Last Year" },
+  { key: "all", label: "All Time" },
+  { key: "custom", label: "Custom" },
+];
+
+const EXPORT_FORMATS: { key: HistoryExportFormat; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: "history", label: "Listening History (CSV)", icon: "document-text-outline" },
+  { key: "goodreads", label: "Goodreads / StoryGraph Import", icon: "library-outline" },
+  { key: "daily", label: "Daily Listening (CSV)", icon: "calendar-outline" },
+];
 
 const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
@@ -37,11 +67,25 @@ export default function AnalyticsScreen() {
   const [books, setBooks] = useState<BookHistoryWithListening[]>([]);
   const [completionsData, setCompletionsData] = useState<{ month: string; count: number }[]>([]);
   const [totalListeningMs, setTotalListeningMs] = useState(0);
+  const [listeningDays, setListeningDays] = useState<{ date: string; duration_ms: number }[]>([]);
+  const [completedThisYear, setCompletedThisYear] = useState(0);
+  const { dailyGoalMinutes, yearlyBookGoal, streakGraceDays } = usePreferences();
+  const [exportVisible, setExportVisible] = useState(false);
+  const [exportPreset, setExportPreset] = useState<ExportRangePreset>("all");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [includeRemoved, setIncludeRemoved] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<HistoryExportFormat | null>(null);
 
   const now = new Date();
   const currentYear = now.getFullYear();
   const currentMonth = now.getMonth() + 1;
 
+  const [calendarYear, setCalendarYear] = useState(currentYear);
+  const [calendarDays, setCalendarDays] = useState<{ date: string; duration_ms: number }[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedDayListening, setSelectedDayListening] = useState<DailyListening[]>([]);
+
   const loadData = useCallback(async () => {
     try {
       const year = filter === "year" || filter === "month" ? currentYear : undefined;
@@ -74,6 +118,69 @@ export default function AnalyticsScreen() {
     }, [loadData])
   );
 
+  const loadGoals = useCallback(async () => {
+    try {
+      const [days, completions] = await Promise.all([
+        getDailyListeningStats(),
+        getCompletionsPerMonth(currentYear),
+      ]);
+      setListeningDays(days);
+      setCompletedThisYear(completions.reduce((sum, c) => sum + c.count, 0));
+    } catch (e) {
+      console.error("Error loading goals:", e);
+    }
+  }, [currentYear]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadGoals();
+    }, [loadGoals])
+  );
+
+  const today = toLocalDateString(now);
+  const todayMs = listeningDays.find((day) => day.date === today)?.duration_ms ?? 0;
+  const todayMinutes = Math.floor(todayMs / 60000);
+  const streaks = computeStreaks(listeningDays, today, dailyGoalMinutes, streakGraceDays);
+
+  const loadCalendar = useCallback(async () => {
+    try {
+      setCalendarDays(await getDailyListeningStats(calendarYear));
+    } catch (e) {
+      console.error("Error loading listening calendar:", e);
+    }
+  }, [calendarYear]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCalendar();
+    }, [loadCalendar])
+  );
+
+  useEffect(() => {
+    if (!selectedDate) {
+      setSelectedDayListening([]);
+      return;
+    }
+    let cancelled = false;
+    getDailyListeningInRange({ from: selectedDate, to: selectedDate }, true)
+      .then((rows) => {
+        if (!cancelled) setSelectedDayListening(rows);
+      })
+      .catch((e) => console.error("Error loading listening for day:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate]);
+
+  const changeCalendarYear = (delta: number) => {
+    setCalendarYear((year) => year + delta);
+    setSelectedDate(null);
+  };
+
+  const calendarTotalMs = calendarDays.reduce((sum, day) => sum + day.duration_ms, 0);
+  const calendarActiveDays = calendarDays.filter((day) => day.duration_ms > 0).length;
+  const selectedDayTotalMs = selectedDayListening.reduce((sum, row) => sum + row.duration_ms, 0);
+
   const completedBooks = books.filter((b) => b.completed_at !== null);
   const inProgressBooks = books.filter((b) => b.completed_at === null);
 
@@ -131,6 +238,74 @@ export default function AnalyticsScreen() {
     return Math.max(1, Math.ceil((e - s) / (1000 * 60 * 60 * 24)));
   };
 
+  // Session dates are YYYY-MM-DD, read as local midnight so the day doesn't shift
+  const formatDay = (date: string): string =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  const openExport = () => {
+    // Start from the period already on screen
+    setExportPreset(filter);
+    setExportVisible(true);
+  };
+
+  // Null when the custom dates aren't valid
+  const getExportRange = (): DateRange | null => {
+    const month = String(currentMonth).padStart(2, "0");
+    switch (exportPreset) {
+      case "month":
+        // Every month sorts before day 31, so there's no need to know its length
+        return { from: `${currentYear}-${month}-01`, to: `${currentYear}-${month}-31` };
+      case "year":
+        return { from: `${currentYear}-01-01`, to: `${currentYear}-12-31` };
+      case "last_year":
+        return { from: `${currentYear - 1}-01-01`, to: `${currentYear - 1}-12-31` };
+      case "all":
+        return { from: null, to: null };
+      case "custom": {
+        const parse = (value: string): string | null | undefined => {
+          const trimmed = value.trim();
+          if (!trimmed) return null;
+          if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || isNaN(new Date(trimmed).getTime())) return undefined;
+          return trimmed;
+        };
+        const from = parse(customFrom);
+        const to = parse(customTo);
+        if (from === undefined || to === undefined || (from && to && from > to)) return null;
+        return { from, to };
+      }
+    }
+  };
+
+  const handleExport = async (format: HistoryExportFormat) => {
+    const range = getExportRange();
+    if (!range) {
+      Alert.alert("Invalid Dates", "Enter dates like 2024-03-01, with the start on or before the end.");
+      return;
+    }
+
+    setExportingFormat(format);
+    try {
+      const historyExport = await buildHistoryExport(format, range, includeRemoved);
+      if (historyExport.rowCount === 0) {
+        Alert.alert("Nothing to Export", "There is no listening history in this date range.");
+        return;
+      }
+      if (await saveHistoryExport(historyExport)) {
+        setExportVisible(false);
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      Alert.alert("Export Failed", message);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="light-content" />
@@ -141,7 +316,9 @@ export default function AnalyticsScreen() {
           <Ionicons name="chevron-back" size={28} color={colors.white} />
         </Pressable>
         <Text style={styles.headerTitle}>Analytics</Text>
-        <View style={styles.headerSpacer} />
+        <Pressable style={styles.headerButton} onPress={openExport} hitSlop={8}>
+          <Ionicons name="share-outline" size={24} color={colors.white} />
+        </Pressable>
       </View>
 
       <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}>
@@ -161,6 +338,50 @@ export default function AnalyticsScreen() {
           </View>
         </View>
 
+        {/* Goals */}
+        <View style={styles.chartSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Goals</Text>
+            <Pressable onPress={() => router.push("/settings")} hitSlop={8}>
+              <Text style={styles.editLink}>Edit</Text>
+            </Pressable>
+          </View>
+          <View style={styles.chartContainer}>
+            <View style={styles.ringsRow}>
+              <GoalRing
+                progress={dailyGoalMinutes > 0 ? todayMinutes / dailyGoalMinutes : 0}
+                value={dailyGoalMinutes > 0 ? `${todayMinutes}/${dailyGoalMinutes}` : `${todayMinutes}`}
+                label={dailyGoalMinutes > 0 ? "Minutes today" : "Minutes today (no goal)"}
+              />
+              <GoalRing
+                progress={yearlyBookGoal > 0 ? completedThisYear / yearlyBookGoal : 0}
+                value={yearlyBookGoal > 0 ? `${completedThisYear}/${yearlyBookGoal}` : `${completedThisYear}`}
+                label={yearlyBookGoal > 0 ? `Books in ${currentYear}` : `Books in ${currentYear} (no goal)`}
+              />
+            </View>
+            <View style={styles.streakRow}>
+              <View style={styles.streakItem}>
+                <Ionicons name="flame" size={20} color={streaks.current > 0 ? colors.red : colors.lightGrey} />
+                <View>
+                  <Text style={styles.streakValue}>
+                    {streaks.current} {streaks.current === 1 ? "day" : "days"}
+                  </Text>
+                  <Text style={styles.cardLabel}>Current streak</Text>
+                </View>
+              </View>
+              <View style={styles.streakItem}>
+                <Ionicons name="trophy" size={20} color={colors.lightGrey} />
+                <View>
+                  <Text style={styles.streakValue}>
+                    {streaks.longest} {streaks.longest === 1 ? "day" : "days"}
+                  </Text>
+                  <Text style={styles.cardLabel}>Longest streak</Text>
+                </View>
+              </View>
+            </View>
+          </View>
+        </View>
+
         {/* Filter Tabs */}
         <View style={styles.filterRow}>
           {(["all", "year", "month"] as FilterTab[]).map((tab) => (
@@ -200,6 +421,72 @@ export default function AnalyticsScreen() {
           </View>
         )}
 
+        {/* Listening Calendar */}
+        <View style={styles.chartSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Listening Calendar</Text>
+            <Pressable onPress={() => changeCalendarYear(-1)} hitSlop={8}>
+              <Ionicons name="chevron-back" size={20} color={colors.white} />
+            </Pressable>
+            <Text style={styles.calendarYear}>{calendarYear}</Text>
+            <Pressable
+              onPress={() => changeCalendarYear(1)}
+              disabled={calendarYear >= currentYear}
+              hitSlop={8}
+            >
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={calendarYear >= currentYear ? colors.mediumGrey : colors.white}
+              />
+            </Pressable>
+          </View>
+          <View style={styles.chartContainer}>
+            <Text style={styles.calendarSummary}>
+              {formatDuration(calendarTotalMs)} on {calendarActiveDays} {calendarActiveDays === 1 ? "day" : "days"}
+            </Text>
+            <ListeningHeatmap
+              year={calendarYear}
+              days={calendarDays}
+              selectedDate={selectedDate}
+              onSelectDate={(date) => setSelectedDate((current) => (current === date ? null : date))}
+            />
+          </View>
+
+          {selectedDate && (
+            <View style={styles.dayDetails}>
+              <Text style={styles.dayTitle}>
+                {formatDay(selectedDate)}
+                {selectedDayTotalMs > 0 ? ` · ${formatDuration(selectedDayTotalMs)}` : ""}
+              </Text>
+              {selectedDayListening.length === 0 ? (
+                <Text style={styles.bookMeta}>No listening on this day</Text>
+              ) : (
+                selectedDayListening.map((row) => (
+                  <Pressable
+                    key={row.book_history_id}
+                    style={styles.bookRow}
+                    onPress={() => router.push(`/analytics/${row.book_history_id}`)}
+                  >
+                    <View style={styles.bookCover}>
+                      {row.cover_path ? (
+                        <Image source={{ uri: row.cover_path }} style={styles.coverImage} />
+                      ) : (
+                        <Ionicons name="book" size={24} color={colors.lightGrey} />
+                      )}
+                    </View>
+                    <View style={styles.bookInfo}>
+                      <Text style={styles.bookTitle} numberOfLines={1}>{row.title}</Text>
+                      {row.author && <Text style={styles.bookAuthor} numberOfLines={1}>{row.author}</Text>}
+                    </View>
+                    <Text style={styles.dayDuration}>{formatDuration(row.duration_ms)}</Text>
+                  </Pressable>
+                ))
+              )}
+            </View>
+          )}
+        </View>
+
         {/* Completed Books */}
         {completedBooks.length > 0 && (
           <View style={styles.listSection}>
@@ -281,6 +568,86 @@ export default function AnalyticsScreen() {
           </View>
         )}
       </ScrollView>
+
+      {/* Export */}
+      <Modal
+        visible={exportVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setExportVisible(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setExportVisible(false)}>
+          <Pressable style={styles.menuContainer} onPress={() => {}}>
+            <Text style={styles.menuTitle}>Export History</Text>
+
+            <Text style={styles.menuSectionLabel}>Date range</Text>
+            <View style={styles.chipRow}>
+              {EXPORT_RANGE_PRESETS.map((preset) => (
+                <Pressable
+                  key={preset.key}
+                  style={[styles.chip, exportPreset === preset.key && styles.chipActive]}
+                  onPress={() => setExportPreset(preset.key)}
+                >
+                  <Text style={styles.chipText}>{preset.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            {exportPreset === "custom" && (
+              <View style={styles.dateRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={customFrom}
+                  onChangeText={setCustomFrom}
+                  placeholder="From (YYYY-MM-DD)"
+                  placeholderTextColor={colors.lightGrey}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={10}
+                />
+                <TextInput
+                  style={styles.dateInput}
+                  value={customTo}
+                  onChangeText={setCustomTo}
+                  placeholder="To (YYYY-MM-DD)"
+                  placeholderTextColor={colors.lightGrey}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={10}
+                />
+              </View>
+            )}
+
+            <View style={styles.toggleRow}>
+              <Text style={styles.toggleLabel}>Include removed books</Text>
+              <Switch
+                value={includeRemoved}
+                onValueChange={setIncludeRemoved}
+                trackColor={{ false: colors.darkGrey, true: colors.red }}
+                thumbColor={colors.white}
+              />
+            </View>
+
+            <Text style={styles.menuSectionLabel}>Format</Text>
+            {EXPORT_FORMATS.map((format) => (
+              <Pressable
+                key={format.key}
+                style={styles.menuItem}
+                onPress={() => handleExport(format.key)}
+                disabled={exportingFormat !== null}
+              >
+                {exportingFormat === format.key ? (
+                  <ActivityIndicator size="small" color={colors.white} />
+                ) : (
+                  <Ionicons name={format.icon} size={22} color={colors.white} />
+                )}
+                <Text style={styles.menuItemText}>{format.label}</Text>
+              </Pressable>
+            ))}
+
+            <Pressable style={styles.menuCancel} onPress={() => setExportVisible(false)}>
+              <Text style={styles.menuCancelText}>Close</Text>
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
     </View>
   );
 }
@@ -306,8 +673,8 @@ const styles = StyleSheet.create({
     color: colors.white,
     textAlign: "center",
   },
-  headerSpacer: {
-    width: 36,
+  headerButton: {
+    padding: 4,
   },
   content: {
     paddingHorizontal: 16,
@@ -374,6 +741,69 @@ const styles = StyleSheet.create({
     paddingRight: 24,
     overflow: "hidden",
   },
+  editLink: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.red,
+  },
+  ringsRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  streakRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    marginTop: 16,
+    paddingTop: 14,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: colors.darkGrey,
+  },
+  streakItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  streakValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: colors.white,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionHeaderTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  calendarYear: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.white,
+    minWidth: 40,
+    textAlign: "center",
+  },
+  calendarSummary: {
+    fontSize: 13,
+    color: colors.lightGrey,
+    marginBottom: 8,
+  },
+  dayDetails: {
+    marginTop: 12,
+  },
+  dayTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.white,
+    marginBottom: 8,
+  },
+  dayDuration: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.white,
+  },
   listSection: {
     marginBottom: 24,
   },
@@ -449,4 +879,94 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.lightGrey,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  menuContainer: {
+    backgroundColor: colors.mediumGrey,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  menuTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  menuSectionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.darkGrey,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+  },
+  chipActive: {
+    backgroundColor: colors.red,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.white,
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  dateInput: {
+    flex: 1,
+    backgroundColor: colors.darkGrey,
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 15,
+    color: colors.white,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  toggleLabel: {
+    fontSize: 15,
+    color: colors.white,
+  },
+  menuItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    gap: 12,
+  },
+  menuItemText: {
+    fontSize: 17,
+    color: colors.white,
+  },
+  menuCancel: {
+    marginTop: 16,
+    paddingVertical: 14,
+    backgroundColor: colors.darkGrey,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  menuCancelText: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: colors.white,
+  },
 });
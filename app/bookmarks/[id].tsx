@@ -0,0 +1,329 @@
+import { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  StatusBar,
+  FlatList,
+  Modal,
+  TextInput,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/constants/theme";
+import { useAudio } from "@/services/audioContext";
+import {
+  BookmarkWithChapter,
+  getBookmarksForBook,
+  updateBookmarkNote,
+  deleteBookmark,
+} from "@/services/database";
+
+export default function BookmarksScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { loadBook } = useAudio();
+  const [bookmarks, setBookmarks] = useState<BookmarkWithChapter[]>([]);
+  const [editingBookmark, setEditingBookmark] = useState<BookmarkWithChapter | null>(null);
+  const [editNote, setEditNote] = useState("");
+
+  const loadBookmarks = useCallback(async () => {
+    if (!id) return;
+    try {
+      setBookmarks(await getBookmarksForBook(parseInt(id)));
+    } catch (e) {
+      console.error("Error loading bookmarks:", e);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBookmarks();
+    }, [loadBookmarks])
+  );
+
+  const formatTime = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+    }
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  };
+
+  const formatDate = (dateStr: string): string => {
+    const d = new Date(dateStr);
+    return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  };
+
+  const handleBookmarkPress = async (bookmark: BookmarkWithChapter) => {
+    if (bookmark.chapter_id === null) {
+      Alert.alert("Chapter Unavailable", "The chapter for this bookmark is no longer in the library.");
+      return;
+    }
+
+    // Loads the book if needed, otherwise jumps with goToChapter
+    await loadBook(bookmark.book_id, {
+      chapterId: bookmark.chapter_id,
+      positionMs: bookmark.position_ms,
+    });
+    router.back();
+  };
+
+  const handleEditNote = (bookmark: BookmarkWithChapter) => {
+    setEditingBookmark(bookmark);
+    setEditNote(bookmark.note ?? "");
+  };
+
+  const handleSaveNote = async () => {
+    if (!editingBookmark) return;
+    const note = editNote.trim();
+    await updateBookmarkNote(editingBookmark.id, note || null);
+    setEditingBookmark(null);
+    loadBookmarks();
+  };
+
+  const handleDelete = (bookmark: BookmarkWithChapter) => {
+    Alert.alert(
+      "Delete Bookmark",
+      "Are you sure you want to delete this bookmark?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await deleteBookmark(bookmark.id);
+            loadBookmarks();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderBookmark = ({ item }: { item: BookmarkWithChapter }) => (
+    <Pressable style={styles.bookmarkRow} onPress={() => handleBookmarkPress(item)}>
+      <View style={styles.bookmarkIcon}>
+        <Ionicons name="bookmark" size={20} color={colors.red} />
+      </View>
+      <View style={styles.bookmarkInfo}>
+        <Text style={styles.bookmarkChapter} numberOfLines={1}>
+          {item.chapter_title ?? "Missing chapter"}
+        </Text>
+        <Text style={styles.bookmarkMeta}>
+          {formatTime(item.position_ms)} · {formatDate(item.created_at)}
+        </Text>
+        {item.note && <Text style={styles.bookmarkNote}>{item.note}</Text>}
+      </View>
+      <Pressable style={styles.rowAction} onPress={() => handleEditNote(item)} hitSlop={8}>
+        <Ionicons name="pencil" size={18} color={colors.lightGrey} />
+      </Pressable>
+      <Pressable style={styles.rowAction} onPress={() => handleDelete(item)} hitSlop={8}>
+        <Ionicons name="trash-outline" size={18} color={colors.red} />
+      </Pressable>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 5 }]}>
+        <Pressable style={styles.backButton} onPress={() => router.back()} hitSlop={8}>
+          <Ionicons name="chevron-back" size={28} color={colors.white} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Bookmarks</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {bookmarks.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="bookmark-outline" size={64} color={colors.lightGrey} />
+          <Text style={styles.emptyText}>No bookmarks yet</Text>
+          <Text style={styles.emptySubtext}>Tap the bookmark button in the player to add one</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={bookmarks}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderBookmark}
+          contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}
+        />
+      )}
+
+      {/* Edit Note Modal */}
+      <Modal
+        visible={editingBookmark !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditingBookmark(null)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setEditingBookmark(null)}>
+          <Pressable style={styles.editContainer} onPress={() => {}}>
+            <Text style={styles.editTitle}>Edit Note</Text>
+            <TextInput
+              style={styles.editInput}
+              value={editNote}
+              onChangeText={setEditNote}
+              placeholder="Note"
+              placeholderTextColor={colors.lightGrey}
+              multiline
+              autoFocus
+            />
+            <View style={styles.editButtons}>
+              <Pressable style={styles.editButton} onPress={() => setEditingBookmark(null)}>
+                <Text style={styles.editButtonText}>Cancel</Text>
+              </Pressable>
+              <Pressable style={[styles.editButton, styles.editButtonPrimary]} onPress={handleSaveNote}>
+                <Text style={styles.editButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.darkGrey,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "bold",
+    color: colors.white,
+    textAlign: "center",
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  content: {
+    paddingHorizontal: 16,
+  },
+  bookmarkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  bookmarkIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: colors.darkGrey,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  bookmarkInfo: {
+    flex: 1,
+    marginLeft: 12,
+    marginRight: 8,
+  },
+  bookmarkChapter: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.white,
+  },
+  bookmarkMeta: {
+    fontSize: 12,
+    color: colors.lightGrey,
+    marginTop: 2,
+  },
+  bookmarkNote: {
+    fontSize: 14,
+    color: colors.white,
+    marginTop: 6,
+  },
+  rowAction: {
+    padding: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.white,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.lightGrey,
+    textAlign: "center",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  editContainer: {
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 16,
+    padding: 20,
+    alignSelf: "center",
+    width: "90%",
+    maxWidth: 400,
+    position: "absolute",
+    top: "30%",
+  },
+  editTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.white,
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  editInput: {
+    backgroundColor: colors.darkGrey,
+    borderRadius: 10,
+    padding: 14,
+    fontSize: 16,
+    color: colors.white,
+    minHeight: 80,
+    textAlignVertical: "top",
+    marginBottom: 20,
+  },
+  editButtons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  editButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    backgroundColor: colors.darkGrey,
+  },
+  editButtonPrimary: {
+    backgroundColor: colors.red,
+  },
+  editButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.white,
+  },
+});
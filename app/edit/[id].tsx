@@ -0,0 +1,431 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  StatusBar,
+  ScrollView,
+  TextInput,
+  Alert,
+  Image,
+  Modal,
+  FlatList,
+  ActivityIndicator,
+  KeyboardTypeOptions,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import { colors } from "@/constants/theme";
+import { useAudio } from "@/services/audioContext";
+import { Book, getBookWithChapters, updateBookDetails } from "@/services/database";
+import { ScannedFile, listBookFolderImages, saveBookCover } from "@/services/scanner";
+
+interface FieldProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+  keyboardType?: KeyboardTypeOptions;
+  multiline?: boolean;
+}
+
+function Field({ label, value, onChangeText, placeholder, keyboardType, multiline }: FieldProps) {
+  return (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={[styles.fieldInput, multiline && styles.fieldInputMultiline]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={colors.lightGrey}
+        keyboardType={keyboardType}
+        multiline={multiline}
+      />
+    </View>
+  );
+}
+
+// Empty fields are stored as null rather than empty strings
+function optionalText(value: string): string | null {
+  return value.trim() || null;
+}
+
+export default function EditBookScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { refreshBook } = useAudio();
+
+  const [book, setBook] = useState<Book | null>(null);
+  const [title, setTitle] = useState("");
+  const [author, setAuthor] = useState("");
+  const [narrator, setNarrator] = useState("");
+  const [seriesName, setSeriesName] = useState("");
+  const [seriesIndex, setSeriesIndex] = useState("");
+  const [year, setYear] = useState("");
+  const [description, setDescription] = useState("");
+  const [coverUri, setCoverUri] = useState<string | null>(null);
+  // Photos from the library are only copied into app storage on save
+  const [coverNeedsCopy, setCoverNeedsCopy] = useState(false);
+  const [folderImages, setFolderImages] = useState<ScannedFile[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    getBookWithChapters(parseInt(id))
+      .then((data) => {
+        if (!data) return;
+        const loaded = data.book;
+        setBook(loaded);
+        setTitle(loaded.title);
+        setAuthor(loaded.author ?? "");
+        setNarrator(loaded.narrator ?? "");
+        setSeriesName(loaded.series_name ?? "");
+        setSeriesIndex(loaded.series_index !== null ? String(loaded.series_index) : "");
+        setYear(loaded.year !== null ? String(loaded.year) : "");
+        setDescription(loaded.description ?? "");
+        setCoverUri(loaded.cover_path);
+      })
+      .catch((e) => console.error("Error loading book:", e));
+  }, [id]);
+
+  const handlePickFromFolder = async () => {
+    if (!book) return;
+    const images = await listBookFolderImages(book);
+    if (images.length === 0) {
+      Alert.alert("No Images", "There are no images in this book's folder.");
+      return;
+    }
+    setFolderImages(images);
+  };
+
+  const handleFolderImageSelect = (image: ScannedFile) => {
+    setCoverUri(image.uri);
+    setCoverNeedsCopy(false);
+    setFolderImages(null);
+  };
+
+  const handlePickFromPhotos = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ["images"],
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.9,
+      });
+      if (!result.canceled && result.assets.length > 0) {
+        setCoverUri(result.assets[0].uri);
+        setCoverNeedsCopy(true);
+      }
+    } catch (e) {
+      console.error("Error picking cover photo:", e);
+      Alert.alert("Error", "Could not open the photo library.");
+    }
+  };
+
+  const handleRemoveCover = () => {
+    setCoverUri(null);
+    setCoverNeedsCopy(false);
+  };
+
+  const handleSave = async () => {
+    if (!book || isSaving) return;
+
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      Alert.alert("Title Required", "Please enter a title for this book.");
+      return;
+    }
+
+    const trimmedIndex = seriesIndex.trim();
+    const parsedIndex = trimmedIndex ? Number(trimmedIndex) : null;
+    if (parsedIndex !== null && (isNaN(parsedIndex) || parsedIndex < 0)) {
+      Alert.alert("Invalid Number", "The series number should be a number like 3 or 2.5.");
+      return;
+    }
+
+    const trimmedYear = year.trim();
+    if (trimmedYear && !/^\d{1,4}$/.test(trimmedYear)) {
+      Alert.alert("Invalid Year", "The year should be a number like 1998.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const savedCover = coverUri && coverNeedsCopy ? await saveBookCover(book.id, coverUri) : coverUri;
+      await updateBookDetails(book.id, {
+        title: trimmedTitle,
+        author: optionalText(author),
+        narrator: optionalText(narrator),
+        series_name: optionalText(seriesName),
+        series_index: parsedIndex,
+        description: optionalText(description),
+        year: trimmedYear ? parseInt(trimmedYear, 10) : null,
+        cover_path: savedCover,
+      });
+      await refreshBook(book.id);
+      router.back();
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      Alert.alert("Error", `Failed to save changes: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!book) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <StatusBar barStyle="light-content" />
+        <ActivityIndicator size="large" color={colors.red} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 5 }]}>
+        <Pressable style={styles.backButton} onPress={() => router.back()} hitSlop={8}>
+          <Ionicons name="chevron-back" size={28} color={colors.white} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Edit Details</Text>
+        <Pressable style={styles.saveButton} onPress={handleSave} disabled={isSaving} hitSlop={8}>
+          <Text style={[styles.saveButtonText, isSaving && styles.saveButtonTextDisabled]}>Save</Text>
+        </Pressable>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Cover */}
+        <View style={styles.coverRow}>
+          <View style={styles.cover}>
+            {coverUri ? (
+              <Image source={{ uri: coverUri }} style={styles.coverImage} />
+            ) : (
+              <Ionicons name="book" size={40} color={colors.lightGrey} />
+            )}
+          </View>
+          <View style={styles.coverActions}>
+            <Pressable style={styles.coverButton} onPress={handlePickFromFolder}>
+              <Ionicons name="folder-outline" size={18} color={colors.white} />
+              <Text style={styles.coverButtonText}>From book folder</Text>
+            </Pressable>
+            <Pressable style={styles.coverButton} onPress={handlePickFromPhotos}>
+              <Ionicons name="images-outline" size={18} color={colors.white} />
+              <Text style={styles.coverButtonText}>From photos</Text>
+            </Pressable>
+            {coverUri && (
+              <Pressable style={styles.coverButton} onPress={handleRemoveCover}>
+                <Ionicons name="trash-outline" size={18} color={colors.red} />
+                <Text style={[styles.coverButtonText, styles.coverButtonTextDanger]}>Remove cover</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+
+        <Field label="Title" value={title} onChangeText={setTitle} placeholder="Book title" />
+        <Field label="Author" value={author} onChangeText={setAuthor} placeholder="Author" />
+        <Field label="Narrator" value={narrator} onChangeText={setNarrator} placeholder="Narrator" />
+        <View style={styles.fieldRow}>
+          <View style={styles.fieldRowWide}>
+            <Field label="Series" value={seriesName} onChangeText={setSeriesName} placeholder="Series name" />
+          </View>
+          <View style={styles.fieldRowNarrow}>
+            <Field
+              label="Book #"
+              value={seriesIndex}
+              onChangeText={setSeriesIndex}
+              placeholder="1"
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+        <Field label="Year" value={year} onChangeText={setYear} placeholder="Year" keyboardType="number-pad" />
+        <Field
+          label="Description"
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Description"
+          multiline
+        />
+      </ScrollView>
+
+      {/* Folder Image Picker */}
+      <Modal
+        visible={folderImages !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setFolderImages(null)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setFolderImages(null)}>
+          <Pressable style={styles.imagePickerContainer} onPress={() => {}}>
+            <Text style={styles.imagePickerTitle}>Choose a Cover</Text>
+            <FlatList
+              data={folderImages ?? []}
+              keyExtractor={(item) => item.uri}
+              numColumns={3}
+              columnWrapperStyle={styles.imageGridRow}
+              renderItem={({ item }) => (
+                <Pressable style={styles.imageGridItem} onPress={() => handleFolderImageSelect(item)}>
+                  <Image source={{ uri: item.uri }} style={styles.coverImage} />
+                </Pressable>
+              )}
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.darkGrey,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "bold",
+    color: colors.white,
+    textAlign: "center",
+  },
+  saveButton: {
+    padding: 4,
+  },
+  saveButtonText: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: colors.red,
+  },
+  saveButtonTextDisabled: {
+    color: colors.lightGrey,
+  },
+  content: {
+    paddingHorizontal: 16,
+  },
+  coverRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    marginBottom: 20,
+  },
+  cover: {
+    width: 120,
+    height: 120,
+    borderRadius: 12,
+    backgroundColor: colors.mediumGrey,
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  coverImage: {
+    width: "100%",
+    height: "100%",
+    resizeMode: "cover",
+  },
+  coverActions: {
+    flex: 1,
+    gap: 8,
+  },
+  coverButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  coverButtonText: {
+    fontSize: 14,
+    color: colors.white,
+  },
+  coverButtonTextDanger: {
+    color: colors.red,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 10,
+    padding: 14,
+    fontSize: 16,
+    color: colors.white,
+  },
+  fieldInputMultiline: {
+    minHeight: 120,
+    textAlignVertical: "top",
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  fieldRowWide: {
+    flex: 3,
+  },
+  fieldRowNarrow: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  imagePickerContainer: {
+    backgroundColor: colors.mediumGrey,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: "70%",
+  },
+  imagePickerTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  imageGridRow: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  imageGridItem: {
+    flex: 1 / 3,
+    aspectRatio: 1,
+    borderRadius: 8,
+    overflow: "hidden",
+    backgroundColor: colors.darkGrey,
+  },
+});
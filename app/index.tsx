@@ -10,83 +10,214 @@ import {
   TextInput,
   Alert,
   Image,
+  ScrollView,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { colors } from "@/constants/theme";
 import {
-  getAllBooks,
-  Book,
-  getProgressWithCumulativePosition,
-  ProgressWithCumulative,
+  getLibraryBooks,
+  getLibraryAuthors,
+  LibraryBook,
+  LibraryQuery,
+  LibrarySort,
+  LibraryStatusFilter,
+  FolderSource,
   deleteBook,
-  updateBookTitle,
   resetBookProgress,
   getAllFolderSources,
   markBookHistoryDeleted,
+  searchLibrary,
+  SearchHit,
+  SearchSegment,
 } from "@/services/database";
-import { deleteBookFiles, scanAndImportFolder } from "@/services/scanner";
+import { deleteBookFiles, recomputeMissingDurations, scanAndImportFolder } from "@/services/scanner";
 import { useAudio } from "@/services/audioContext";
+import { DEFAULT_PREFERENCES, loadPreferences, setPreference, subscribeToPreferences } from "@/services/preferences";
 
-interface BookWithProgress extends Book {
-  progress: ProgressWithCumulative | null;
+interface BookSection {
+  title: string;
+  data: LibraryBook[];
 }
 
-interface BookSection {
+interface SearchSection {
   title: string;
-  data: BookWithProgress[];
+  data: SearchHit[];
 }
 
 type MenuAction = "edit" | "reset" | "delete";
 
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 150;
+
+// Each sort starts in the direction that is most useful for it
+const SORT_OPTIONS: { value: LibrarySort; label: string; descending: boolean }[] = [
+  { value: "last_played", label: "Last played", descending: true },
+  { value: "title", label: "Title", descending: false },
+  { value: "author", label: "Author", descending: false },
+  { value: "created_at", label: "Date added", descending: true },
+  { value: "duration", label: "Length", descending: false },
+  { value: "remaining", label: "Time left", descending: false },
+];
+
+const STATUS_OPTIONS: { value: LibraryStatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "not_started", label: "Not started" },
+  { value: "in_progress", label: "In progress" },
+  { value: "finished", label: "Finished" },
+];
+
+// Books arrive already sorted; the sections keep that order
+function getStatusSections(books: LibraryBook[]): BookSection[] {
+  const inProgress = books.filter((book) => book.progress !== null && book.completed_at === null);
+  const notStarted = books.filter((book) => book.progress === null && book.completed_at === null);
+  const finished = books.filter((book) => book.completed_at !== null);
+
+  const result: BookSection[] = [
+    { title: "In Progress", data: inProgress },
+    { title: "Not Started", data: notStarted },
+    { title: "Finished", data: finished },
+  ];
+  return result.filter((section) => section.data.length > 0);
+}
+
+// Grouped queries return each series' books together in volume order
+function getSeriesSections(books: LibraryBook[]): BookSection[] {
+  const result: BookSection[] = [];
+  for (const book of books) {
+    if (!book.series_name) continue;
+    const last = result[result.length - 1];
+    if (last && last.title.toLowerCase() === book.series_name.toLowerCase()) {
+      last.data.push(book);
+    } else {
+      result.push({ title: book.series_name, data: [book] });
+    }
+  }
+  return [...result, ...getStatusSections(books.filter((book) => !book.series_name))];
+}
+
+function HighlightedText({
+  segments,
+  style,
+  numberOfLines,
+}: {
+  segments: SearchSegment[];
+  style: object;
+  numberOfLines: number;
+}) {
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {segments.map((segment, i) => (
+        <Text key={i} style={segment.match ? styles.searchMatch : undefined}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
 export default function HomeScreen() {
-  const [books, setBooks] = useState<BookWithProgress[]>([]);
+  const [books, setBooks] = useState<LibraryBook[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedBook, setSelectedBook] = useState<BookWithProgress | null>(null);
+  const [selectedBook, setSelectedBook] = useState<LibraryBook | null>(null);
   const [menuVisible, setMenuVisible] = useState(false);
-  const [editModalVisible, setEditModalVisible] = useState(false);
-  const [editTitle, setEditTitle] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
+  const [libraryQuery, setLibraryQuery] = useState<LibraryQuery>(DEFAULT_PREFERENCES.libraryView);
+  const [isViewLoaded, setIsViewLoaded] = useState(false);
+  const [viewModalVisible, setViewModalVisible] = useState(false);
+  const [authors, setAuthors] = useState<string[]>([]);
+  const [folderSources, setFolderSources] = useState<FolderSource[]>([]);
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { state: audioState, togglePlayback } = useAudio();
-  const { isPlaying, book: currentBook } = audioState;
-  const currentBookId = currentBook?.id ?? null;
+  const { state: audioState, loadBook } = useAudio();
+  // The mini-player sits below the screen and covers the bottom inset while a book is loaded
+  const hasMiniPlayer = audioState.book !== null;
 
   // Use ref to break dependency chain between callbacks
   const loadBooksRef = useRef<() => Promise<void>>(undefined);
 
+  const isFiltered =
+    libraryQuery.status !== "all" || libraryQuery.author !== null || libraryQuery.folderSourceId !== null;
+
+  // Restore the saved sort and filters before the first load, and follow changes
+  // made on the settings screen
+  useEffect(() => {
+    loadPreferences()
+      .then((preferences) => setLibraryQuery(preferences.libraryView))
+      .catch((error) => console.warn("Error loading library view:", error))
+      .finally(() => setIsViewLoaded(true));
+    return subscribeToPreferences((preferences) => setLibraryQuery(preferences.libraryView));
+  }, []);
+
   const loadBooks = useCallback(async () => {
+    if (!isViewLoaded) return;
+
     try {
       setIsLoading(true);
-      const allBooks = await getAllBooks();
-      const booksWithProgress: BookWithProgress[] = await Promise.all(
-        allBooks.map(async (book) => {
-          const progress = await getProgressWithCumulativePosition(book.id);
-          return { ...book, progress };
-        })
-      );
-      setBooks(booksWithProgress);
+      setBooks(await getLibraryBooks(libraryQuery));
     } catch (error) {
       console.error("Error loading books:", error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [libraryQuery, isViewLoaded]);
 
   // Keep ref in sync
   loadBooksRef.current = loadBooks;
 
+  // Reload whenever the sort or filters change
+  useEffect(() => {
+    loadBooks();
+  }, [loadBooks]);
+
+  const updateLibraryQuery = (changes: Partial<LibraryQuery>) => {
+    const next = { ...libraryQuery, ...changes };
+    setLibraryQuery(next);
+    setPreference("libraryView", next).catch((error) =>
+      console.warn("Error saving library view:", error)
+    );
+  };
+
+  const handleSortPress = (option: (typeof SORT_OPTIONS)[number]) => {
+    // Tapping the current sort flips its direction
+    if (option.value === libraryQuery.sort) {
+      updateLibraryQuery({ descending: !libraryQuery.descending });
+    } else {
+      updateLibraryQuery({ sort: option.value, descending: option.descending });
+    }
+  };
+
+  const openViewOptions = async () => {
+    try {
+      const [allAuthors, sources] = await Promise.all([getLibraryAuthors(), getAllFolderSources()]);
+      setAuthors(allAuthors);
+      setFolderSources(sources);
+      // The saved folder may have been removed since
+      if (
+        libraryQuery.folderSourceId !== null &&
+        !sources.some((source) => source.id === libraryQuery.folderSourceId)
+      ) {
+        updateLibraryQuery({ folderSourceId: null });
+      }
+    } catch (error) {
+      console.warn("Error loading filter options:", error);
+    }
+    setViewModalVisible(true);
+  };
+
   const scanAllFolders = useCallback(async () => {
     try {
       const folderSources = await getAllFolderSources();
-      let newBooksFound = false;
+      let libraryChanged = false;
 
       for (const source of folderSources) {
         try {
           const result = await scanAndImportFolder(source.uri);
-          if (result.success && result.booksImported > 0) {
-            newBooksFound = true;
+          const { booksAdded, chaptersAdded, chaptersMissing } = result.summary;
+          if (result.success && booksAdded + chaptersAdded + chaptersMissing > 0) {
+            libraryChanged = true;
           } else if (!result.success) {
             // Log failures silently - don't interrupt user with alerts for background scans
             console.warn(`Scan failed for "${source.name}": ${result.message}`);
@@ -97,7 +228,7 @@ export default function HomeScreen() {
         }
       }
 
-      if (newBooksFound) {
+      if (libraryChanged) {
         await loadBooksRef.current?.();
       }
     } catch (error) {
@@ -105,10 +236,27 @@ export default function HomeScreen() {
     }
   }, []);
 
-  // Scan for new books once when app opens
+  // Books imported before durations were read at import time still show as "Started"
+  const fillInMissingDurations = useCallback(async () => {
+    try {
+      if ((await recomputeMissingDurations()) > 0) {
+        await loadBooksRef.current?.();
+      }
+    } catch (error) {
+      console.warn("Error recomputing durations:", error);
+    }
+  }, []);
+
+  // Scan for new books once when app opens, unless turned off in settings. Durations
+  // are filled in either way, after the scan so the two don't read files at once.
   useEffect(() => {
-    scanAllFolders();
-  }, [scanAllFolders]);
+    loadPreferences()
+      .then(async ({ scanOnLaunch }) => {
+        if (scanOnLaunch) await scanAllFolders();
+      })
+      .catch((error) => console.warn("Error loading scan settings:", error))
+      .finally(fillInMissingDurations);
+  }, [scanAllFolders, fillInMissingDurations]);
 
   // Load/refresh books when screen gains focus
   useFocusEffect(
@@ -117,32 +265,62 @@ export default function HomeScreen() {
     }, [])
   );
 
-  const sections = useMemo((): BookSection[] => {
-    const inProgress = books.filter((book) => book.progress !== null);
-    const notStarted = books.filter((book) => book.progress === null);
+  const sections = useMemo(
+    (): BookSection[] => (libraryQuery.groupBySeries ? getSeriesSections(books) : getStatusSections(books)),
+    [books, libraryQuery.groupBySeries]
+  );
 
-    const result: BookSection[] = [];
+  const isSearching = searchQuery.trim().length > 0;
 
-    if (inProgress.length > 0) {
-      // Sort by last played (most recent first)
-      inProgress.sort((a, b) => {
-        const aTime = a.progress?.last_played_at || "";
-        const bTime = b.progress?.last_played_at || "";
-        return bTime.localeCompare(aTime);
-      });
-      result.push({ title: "In Progress", data: inProgress });
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      return;
     }
 
-    if (notStarted.length > 0) {
-      // Sort alphabetically
-      notStarted.sort((a, b) => a.title.localeCompare(b.title));
-      result.push({ title: "Not Started", data: notStarted });
-    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      searchLibrary(query)
+        .then((results) => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch((error) => console.error("Error searching library:", error));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, books]);
 
-    return result;
-  }, [books]);
+  const searchSections = useMemo((): SearchSection[] => {
+    // A book matching on both title and author is listed once
+    const seenBooks = new Set<number>();
+    const bookHits = searchResults.filter((hit) => {
+      if (hit.kind !== "title" && hit.kind !== "author") return false;
+      if (seenBooks.has(hit.book_id)) return false;
+      seenBooks.add(hit.book_id);
+      return true;
+    });
 
-  const handleLongPress = (book: BookWithProgress) => {
+    const result: SearchSection[] = [
+      { title: "Books", data: bookHits },
+      { title: "Chapters", data: searchResults.filter((hit) => hit.kind === "chapter") },
+      { title: "Bookmarks", data: searchResults.filter((hit) => hit.kind === "bookmark") },
+    ];
+    return result.filter((section) => section.data.length > 0);
+  }, [searchResults]);
+
+  const handleSearchHitPress = async (hit: SearchHit) => {
+    if (hit.chapter_id !== null) {
+      // Loads the book if needed, otherwise jumps with goToChapter
+      await loadBook(hit.book_id, { chapterId: hit.chapter_id, positionMs: hit.position_ms });
+    }
+    router.push(`/player/${hit.book_id}`);
+  };
+
+  const handleLongPress = (book: LibraryBook) => {
     setSelectedBook(book);
     setMenuVisible(true);
   };
@@ -154,8 +332,7 @@ export default function HomeScreen() {
 
     switch (action) {
       case "edit":
-        setEditTitle(selectedBook.title);
-        setEditModalVisible(true);
+        router.push(`/edit/${selectedBook.id}`);
         break;
 
       case "reset":
@@ -220,20 +397,11 @@ export default function HomeScreen() {
     }
   };
 
-  const handleSaveTitle = async () => {
-    if (!selectedBook || !editTitle.trim()) return;
-
-    await updateBookTitle(selectedBook.id, editTitle.trim());
-    setEditModalVisible(false);
-    setSelectedBook(null);
-    loadBooks();
-  };
-
-  const handleBookPress = (book: BookWithProgress) => {
+  const handleBookPress = (book: LibraryBook) => {
     router.push(`/player/${book.id}`);
   };
 
-  const renderBookItem = ({ item }: { item: BookWithProgress }) => {
+  const renderBookItem = ({ item }: { item: LibraryBook }) => {
     // Only calculate progress if we have valid duration data
     const hasValidProgress = item.progress && item.progress.cumulative_position_ms > 0 && item.total_duration_ms > 0;
     const progressPercent = hasValidProgress
@@ -263,6 +431,11 @@ export default function HomeScreen() {
               {item.author}
             </Text>
           )}
+          {item.series_name && (
+            <Text style={styles.listSeries} numberOfLines={1}>
+              {item.series_index !== null ? `${item.series_name} · Book ${item.series_index}` : item.series_name}
+            </Text>
+          )}
           {item.progress && (
             <View style={styles.progressContainer}>
               <View style={styles.progressBar}>
@@ -283,13 +456,77 @@ export default function HomeScreen() {
     );
   };
 
-  const renderSectionHeader = ({ section }: { section: BookSection }) => (
+  const renderSearchHit = ({ item }: { item: SearchHit }) => {
+    const isBookHit = item.kind === "title" || item.kind === "author";
+
+    return (
+      <Pressable style={styles.listItem} onPress={() => handleSearchHitPress(item)}>
+        <View style={styles.searchCover}>
+          {item.cover_path ? (
+            <Image source={{ uri: item.cover_path }} style={styles.coverImage} />
+          ) : (
+            <Ionicons
+              name={item.kind === "chapter" ? "list" : item.kind === "bookmark" ? "bookmark" : "book"}
+              size={22}
+              color={colors.lightGrey}
+            />
+          )}
+        </View>
+        <View style={styles.listInfo}>
+          {item.kind === "title" ? (
+            <HighlightedText segments={item.segments} style={styles.listTitle} numberOfLines={1} />
+          ) : (
+            <Text style={isBookHit ? styles.listTitle : styles.searchBookTitle} numberOfLines={1}>
+              {item.book_title}
+            </Text>
+          )}
+          {item.kind === "author" ? (
+            <HighlightedText segments={item.segments} style={styles.listAuthor} numberOfLines={1} />
+          ) : item.kind === "title" ? (
+            item.book_author && (
+              <Text style={styles.listAuthor} numberOfLines={1}>
+                {item.book_author}
+              </Text>
+            )
+          ) : (
+            <HighlightedText
+              segments={item.segments}
+              style={styles.searchDetail}
+              numberOfLines={item.kind === "bookmark" ? 2 : 1}
+            />
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={colors.lightGrey} />
+      </Pressable>
+    );
+  };
+
+  const renderSearchEmpty = () => (
+    <View style={styles.searchEmpty}>
+      <Text style={styles.emptySubtext}>No matches for &quot;{searchQuery.trim()}&quot;</Text>
+    </View>
+  );
+
+  const renderSectionHeader = ({ section }: { section: { title: string; data: readonly unknown[] } }) => (
     <View style={styles.sectionHeader}>
       <Text style={styles.sectionTitle}>{section.title}</Text>
       <Text style={styles.sectionCount}>{section.data.length}</Text>
     </View>
   );
 
+  const renderNoMatches = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="funnel-outline" size={64} color={colors.lightGrey} />
+      <Text style={styles.emptyText}>No books match these filters</Text>
+      <Pressable
+        onPress={() => updateLibraryQuery({ status: "all", author: null, folderSourceId: null })}
+        hitSlop={8}
+      >
+        <Text style={styles.clearFiltersText}>Clear filters</Text>
+      </Pressable>
+    </View>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <Ionicons name="library-outline" size={64} color={colors.lightGrey} />
@@ -306,6 +543,13 @@ export default function HomeScreen() {
       <View style={[styles.header, { paddingTop: insets.top + 5 }]}>
         <Text style={styles.headerTitle}>Audiobooks</Text>
         <View style={styles.headerIcons}>
+          <Pressable style={styles.iconButton} onPress={openViewOptions} hitSlop={8}>
+            <Ionicons
+              name="options-outline"
+              size={24}
+              color={isFiltered ? colors.red : colors.white}
+            />
+          </Pressable>
           <Pressable
             style={styles.iconButton}
             onPress={() => router.push("/analytics")}
@@ -320,15 +564,55 @@ export default function HomeScreen() {
           >
             <Ionicons name="folder-outline" size={24} color={colors.white} />
           </Pressable>
-          <Pressable style={styles.iconButton} hitSlop={8}>
+          <Pressable
+            style={styles.iconButton}
+            onPress={() => router.push("/settings")}
+            hitSlop={8}
+          >
             <Ionicons name="settings-outline" size={24} color={colors.white} />
           </Pressable>
         </View>
       </View>
 
+      {/* Search Bar */}
+      {(books.length > 0 || isFiltered) && (
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={18} color={colors.lightGrey} />
+          <TextInput
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Titles, authors, chapters, notes"
+            placeholderTextColor={colors.lightGrey}
+            autoCorrect={false}
+            autoCapitalize="none"
+            returnKeyType="search"
+          />
+          {isSearching && (
+            <Pressable onPress={() => setSearchQuery("")} hitSlop={8}>
+              <Ionicons name="close-circle" size={18} color={colors.lightGrey} />
+            </Pressable>
+          )}
+        </View>
+      )}
+
       {/* Content Area */}
-      {books.length === 0 && !isLoading ? (
-        renderEmptyState()
+      {isSearching ? (
+        <SectionList
+          sections={searchSections}
+          keyExtractor={(item) => `${item.kind}-${item.book_id}-${item.chapter_id}-${item.position_ms}`}
+          renderItem={renderSearchHit}
+          renderSectionHeader={renderSectionHeader}
+          ListEmptyComponent={renderSearchEmpty}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={[
+            styles.listContainer,
+            { paddingBottom: insets.bottom + 80 },
+          ]}
+          stickySectionHeadersEnabled={false}
+        />
+      ) : books.length === 0 && !isLoading ? (
+        isFiltered ? renderNoMatches() : renderEmptyState()
       ) : (
         <SectionList
           sections={sections}
@@ -343,23 +627,12 @@ export default function HomeScreen() {
         />
       )}
 
-      {/* Floating Action Button - Play/Pause when playing, Add when not */}
+      {/* Floating Action Button - playback lives in the mini-player */}
       <Pressable
-        style={[styles.addButton, { bottom: insets.bottom + 24 }]}
-        onPress={() => {
-          if (currentBookId !== null) {
-            togglePlayback();
-          } else {
-            router.push("/select-folder");
-          }
-        }}
+        style={[styles.addButton, { bottom: (hasMiniPlayer ? 0 : insets.bottom) + 24 }]}
+        onPress={() => router.push("/select-folder")}
       >
-        <Ionicons
-          name={currentBookId !== null ? (isPlaying ? "pause" : "play") : "add"}
-          size={32}
-          color={colors.white}
-          style={currentBookId !== null && !isPlaying ? styles.playIconOffset : undefined}
-        />
+        <Ionicons name="add" size={32} color={colors.white} />
       </Pressable>
 
       {/* Long Press Menu Modal */}
@@ -383,7 +656,7 @@ export default function HomeScreen() {
               onPress={() => handleMenuAction("edit")}
             >
               <Ionicons name="pencil" size={22} color={colors.white} />
-              <Text style={styles.menuItemText}>Edit Title</Text>
+              <Text style={styles.menuItemText}>Edit Details</Text>
             </Pressable>
 
             {selectedBook?.progress && (
@@ -416,44 +689,129 @@ export default function HomeScreen() {
         </Pressable>
       </Modal>
 
-      {/* Edit Title Modal */}
+      {/* Sort & Filter Modal */}
       <Modal
-        visible={editModalVisible}
+        visible={viewModalVisible}
         transparent
         animationType="fade"
-        onRequestClose={() => setEditModalVisible(false)}
+        onRequestClose={() => setViewModalVisible(false)}
       >
         <Pressable
           style={styles.modalOverlay}
-          onPress={() => setEditModalVisible(false)}
+          onPress={() => setViewModalVisible(false)}
         >
-          <Pressable style={styles.editContainer} onPress={() => {}}>
-            <Text style={styles.editTitle}>Edit Title</Text>
-            <TextInput
-              style={styles.editInput}
-              value={editTitle}
-              onChangeText={setEditTitle}
-              placeholder="Book title"
-              placeholderTextColor={colors.lightGrey}
-              autoFocus
-              selectTextOnFocus
-            />
-            <View style={styles.editButtons}>
-              <Pressable
-                style={styles.editButton}
-                onPress={() => setEditModalVisible(false)}
-              >
-                <Text style={styles.editButtonText}>Cancel</Text>
-              </Pressable>
-              <Pressable
-                style={[styles.editButton, styles.editButtonPrimary]}
-                onPress={handleSaveTitle}
-              >
-                <Text style={[styles.editButtonText, styles.editButtonTextPrimary]}>
-                  Save
-                </Text>
-              </Pressable>
-            </View>
+          <Pressable style={styles.viewContainer} onPress={() => {}}>
+            <ScrollView>
+              <Text style={styles.viewSectionTitle}>Sort by</Text>
+              {SORT_OPTIONS.map((option) => {
+                const isActive = option.value === libraryQuery.sort;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={styles.viewSortRow}
+                    onPress={() => handleSortPress(option)}
+                  >
+                    <Text style={[styles.menuItemText, isActive && styles.viewOptionActive]}>
+                      {option.label}
+                    </Text>
+                    {isActive && (
+                      <Ionicons
+                        name={libraryQuery.descending ? "arrow-down" : "arrow-up"}
+                        size={20}
+                        color={colors.red}
+                      />
+                    )}
+                  </Pressable>
+                );
+              })}
+
+              <Text style={styles.viewSectionTitle}>Show</Text>
+              <View style={styles.viewChips}>
+                {STATUS_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.value}
+                    style={[
+                      styles.viewChip,
+                      libraryQuery.status === option.value && styles.viewChipActive,
+                    ]}
+                    onPress={() => updateLibraryQuery({ status: option.value })}
+                  >
+                    <Text style={styles.viewChipText}>{option.label}</Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              <Text style={styles.viewSectionTitle}>Group</Text>
+              <View style={styles.viewChips}>
+                <Pressable
+                  style={[styles.viewChip, libraryQuery.groupBySeries && styles.viewChipActive]}
+                  onPress={() => updateLibraryQuery({ groupBySeries: !libraryQuery.groupBySeries })}
+                >
+                  <Text style={styles.viewChipText}>By series</Text>
+                </Pressable>
+              </View>
+
+              {authors.length > 0 && (
+                <>
+                  <Text style={styles.viewSectionTitle}>Author</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View style={styles.viewChips}>
+                      <Pressable
+                        style={[styles.viewChip, libraryQuery.author === null && styles.viewChipActive]}
+                        onPress={() => updateLibraryQuery({ author: null })}
+                      >
+                        <Text style={styles.viewChipText}>Any</Text>
+                      </Pressable>
+                      {authors.map((author) => (
+                        <Pressable
+                          key={author}
+                          style={[styles.viewChip, libraryQuery.author === author && styles.viewChipActive]}
+                          onPress={() => updateLibraryQuery({ author })}
+                        >
+                          <Text style={styles.viewChipText}>{author}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </ScrollView>
+                </>
+              )}
+
+              {folderSources.length > 1 && (
+                <>
+                  <Text style={styles.viewSectionTitle}>Folder</Text>
+                  <View style={styles.viewChips}>
+                    <Pressable
+                      style={[
+                        styles.viewChip,
+                        libraryQuery.folderSourceId === null && styles.viewChipActive,
+                      ]}
+                      onPress={() => updateLibraryQuery({ folderSourceId: null })}
+                    >
+                      <Text style={styles.viewChipText}>Any</Text>
+                    </Pressable>
+                    {folderSources.map((source) => (
+                      <Pressable
+                        key={source.id}
+                        style={[
+                          styles.viewChip,
+                          libraryQuery.folderSourceId === source.id && styles.viewChipActive,
+                        ]}
+                        onPress={() => updateLibraryQuery({ folderSourceId: source.id })}
+                      >
+                        <Text style={styles.viewChipText}>{source.name}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </>
+              )}
+            </ScrollView>
+
+            <Pressable
+              style={styles.menuCancel}
+              onPress={() => setViewModalVisible(false)}
+            >
+              <Text style={styles.menuCancelText}>Done</Text>
+            </Pressable>
           </Pressable>
         </Pressable>
       </Modal>
@@ -500,9 +858,56 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.lightGrey,
   },
+  clearFiltersText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.red,
+  },
   listContainer: {
     paddingHorizontal: 16,
   },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 10,
+    marginHorizontal: 16,
+    marginBottom: 4,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.white,
+  },
+  searchCover: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: colors.darkGrey,
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  searchBookTitle: {
+    fontSize: 13,
+    color: colors.lightGrey,
+    marginBottom: 2,
+  },
+  searchDetail: {
+    fontSize: 15,
+    color: colors.white,
+  },
+  searchMatch: {
+    color: colors.red,
+    fontWeight: "700",
+  },
+  searchEmpty: {
+    alignItems: "center",
+    paddingTop: 40,
+  },
   sectionHeader: {
     flexDirection: "row",
     alignItems: "center",
@@ -561,6 +966,12 @@ const styles = StyleSheet.create({
     color: colors.lightGrey,
     marginBottom: 6,
   },
+  listSeries: {
+    fontSize: 13,
+    color: colors.lightGrey,
+    marginTop: -4,
+    marginBottom: 6,
+  },
   progressContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -597,9 +1008,6 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 8,
   },
-  playIconOffset: {
-    marginLeft: 4,
-  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.6)",
@@ -650,53 +1058,50 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: colors.white,
   },
-  editContainer: {
+  viewContainer: {
     backgroundColor: colors.mediumGrey,
-    marginHorizontal: 20,
-    marginBottom: 100,
-    borderRadius: 16,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
     padding: 20,
-    alignSelf: "center",
-    width: "90%",
-    maxWidth: 400,
-    position: "absolute",
-    top: "30%",
+    paddingBottom: 40,
+    maxHeight: "80%",
   },
-  editTitle: {
-    fontSize: 18,
+  viewSectionTitle: {
+    fontSize: 13,
     fontWeight: "600",
-    color: colors.white,
-    marginBottom: 16,
-    textAlign: "center",
+    color: colors.lightGrey,
+    textTransform: "uppercase",
+    marginTop: 12,
+    marginBottom: 8,
   },
-  editInput: {
-    backgroundColor: colors.darkGrey,
-    borderRadius: 10,
-    padding: 14,
-    fontSize: 16,
-    color: colors.white,
-    marginBottom: 20,
+  viewSortRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 10,
+  },
+  viewOptionActive: {
+    color: colors.red,
+    fontWeight: "600",
   },
-  editButtons: {
+  viewChips: {
     flexDirection: "row",
-    gap: 12,
+    flexWrap: "wrap",
+    gap: 8,
   },
-  editButton: {
-    flex: 1,
-    paddingVertical: 12,
-    borderRadius: 10,
-    alignItems: "center",
-    backgroundColor: colors.darkGrey,
+  viewChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.lightGrey,
   },
-  editButtonPrimary: {
+  viewChipActive: {
+    borderColor: colors.red,
     backgroundColor: colors.red,
   },
-  editButtonText: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: colors.white,
-  },
-  editButtonTextPrimary: {
+  viewChipText: {
+    fontSize: 14,
     color: colors.white,
   },
 });
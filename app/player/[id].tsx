@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -6,20 +6,41 @@ import {
   Pressable,
   StatusBar,
   ActivityIndicator,
-  Alert,
   Image,
+  Modal,
+  TextInput,
+  FlatList,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import Slider from "@react-native-community/slider";
+import * as Haptics from "expo-haptics";
 import { colors } from "@/constants/theme";
-import { useAudio } from "@/services/audioContext";
-import { getBookHistoryByBookId } from "@/services/database";
+import {
+  useAudio,
+  SLEEP_TIMER_SHAKE_EXTEND_MINUTES,
+  getChapterLengthMs,
+} from "@/services/audioContext";
+import {
+  getBookHistoryByBookId,
+  addBookmark,
+} from "@/services/database";
+import {
+  usePreferences,
+  setPreference,
+  Preferences,
+  PreferenceKey,
+  SLEEP_TIMER_REWIND_OPTIONS,
+} from "@/services/preferences";
 
-const SKIP_SECONDS = 30;
-const MIN_SPEED = 0.5;
-const MAX_SPEED = 3.0;
+const SLEEP_TIMER_MINUTES = [5, 10, 15, 30, 45, 60];
+const SLEEP_TIMER_EXTEND_MINUTES = [5, 15];
+const CHAPTER_ROW_HEIGHT = 60;
+// Holding a skip button scrubs in steps that double every second it's held
+const SCRUB_TICK_MS = 200;
+const SCRUB_START_SECONDS = 2;
+const SCRUB_MAX_SECONDS = 60;
 
 export default function PlayerScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -34,7 +55,16 @@ export default function PlayerScreen() {
     seekRelative,
     nextChapter,
     previousChapter,
+    goToChapter,
     setPlaybackSpeed,
+    previewPlaybackSpeed,
+    resetPlaybackSpeed,
+    setTrimSilence,
+    startSleepTimer,
+    extendSleepTimer,
+    cancelSleepTimer,
+    play,
+    dismissNextInSeries,
   } = useAudio();
 
   const {
@@ -46,11 +76,53 @@ export default function PlayerScreen() {
     positionMs,
     durationMs,
     playbackSpeed,
+    sleepTimer,
+    trimSilence,
+    nextInSeries,
     error,
   } = state;
 
+  const preferences = usePreferences();
+  const {
+    skipBackSeconds,
+    skipForwardSeconds,
+    minPlaybackSpeed,
+    maxPlaybackSpeed,
+    smartRewind,
+    smartRewindCrossChapters,
+    sleepTimerRewindSeconds,
+    timelineMode,
+  } = preferences;
+
   const [showSpeedSlider, setShowSpeedSlider] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [sleepMenuVisible, setSleepMenuVisible] = useState(false);
+  const [customSleepMinutes, setCustomSleepMinutes] = useState("");
+  const [bookmarkModalVisible, setBookmarkModalVisible] = useState(false);
+  const [bookmarkNote, setBookmarkNote] = useState("");
+  const [pendingBookmark, setPendingBookmark] = useState<{ chapterId: number; positionMs: number } | null>(null);
+  const [chapterListVisible, setChapterListVisible] = useState(false);
+  const scrubTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Where each chapter starts in the whole book. Unprobed chapters count as zero
+  // except the current one, whose length the player already knows; knownUntil is
+  // the first chapter whose start is a guess.
+  const bookTimeline = useMemo(() => {
+    let totalMs = 0;
+    let knownUntil = chapters.length;
+    const startsMs = chapters.map((chapter, index) => {
+      const startMs = totalMs;
+      const lengthMs = index === currentChapterIndex && durationMs > 0 ? durationMs : getChapterLengthMs(chapter);
+      if (lengthMs <= 0) knownUntil = Math.min(knownUntil, index + 1);
+      totalMs += Math.max(0, lengthMs);
+      return startMs;
+    });
+    return { startsMs, totalMs, isComplete: knownUntil === chapters.length, knownUntil };
+  }, [chapters, currentChapterIndex, durationMs]);
+
+  const bookPositionMs = (bookTimeline.startsMs[currentChapterIndex] ?? 0) + positionMs;
+  const bookRemainingMs = Math.max(0, bookTimeline.totalMs - bookPositionMs);
+  const isBookTimeline = timelineMode === "book" && chapters.length > 1 && bookTimeline.totalMs > 0;
 
   // Load book on mount
   useEffect(() => {
@@ -63,15 +135,125 @@ export default function PlayerScreen() {
     load();
   }, [id, loadBook]);
 
+  // Stop scrubbing if the screen closes while a skip button is held
+  useEffect(() => {
+    return () => {
+      if (scrubTimerRef.current) clearInterval(scrubTimerRef.current);
+    };
+  }, []);
+
   const handleSeek = async (value: number) => {
+    if (isBookTimeline) {
+      await handleBookSeek(Math.floor(value * bookTimeline.totalMs));
+      return;
+    }
     if (durationMs <= 0) return;
     const newPosition = Math.floor(value * durationMs);
     await seekTo(newPosition);
   };
 
+  // Translates a book position into the chapter that holds it
+  const handleBookSeek = async (targetMs: number) => {
+    let index = 0;
+    bookTimeline.startsMs.forEach((startMs, i) => {
+      if (startMs <= targetMs) index = i;
+    });
+
+    const offsetMs = targetMs - bookTimeline.startsMs[index];
+    if (index === currentChapterIndex) {
+      await seekTo(offsetMs);
+    } else {
+      await goToChapter(index, offsetMs);
+    }
+  };
+
+  const startScrubbing = (direction: 1 | -1) => {
+    stopScrubbing();
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+
+    const startedAt = Date.now();
+    let isSeeking = false;
+    scrubTimerRef.current = setInterval(async () => {
+      // Skip ticks while a seek into another chapter is still loading
+      if (isSeeking) return;
+      isSeeking = true;
+      const heldSeconds = Math.floor((Date.now() - startedAt) / 1000);
+      const stepSeconds = Math.min(SCRUB_MAX_SECONDS, SCRUB_START_SECONDS * 2 ** heldSeconds);
+      await seekRelative(direction * stepSeconds * 1000);
+      isSeeking = false;
+    }, SCRUB_TICK_MS);
+  };
+
+  const stopScrubbing = () => {
+    if (scrubTimerRef.current) {
+      clearInterval(scrubTimerRef.current);
+      scrubTimerRef.current = null;
+    }
+  };
+
+  const savePreference = async <K extends PreferenceKey>(key: K, value: Preferences[K]) => {
+    try {
+      await setPreference(key, value);
+    } catch (e) {
+      console.warn(`Error saving preference "${key}":`, e);
+    }
+  };
+
+  const handleTimelineModeToggle = () =>
+    savePreference("timelineMode", timelineMode === "chapter" ? "book" : "chapter");
+
+  // The rate follows the slider as it's dragged; the book's speed is saved on release
   const handleSpeedChange = async (value: number) => {
     const speed = Math.round(value * 10) / 10;
-    await setPlaybackSpeed(speed);
+    if (speed !== playbackSpeed) await previewPlaybackSpeed(speed);
+  };
+
+  const handleSpeedChangeComplete = async (value: number) => {
+    await setPlaybackSpeed(Math.round(value * 10) / 10);
+  };
+
+  const handleSetDefaultSpeed = () => savePreference("defaultPlaybackSpeed", playbackSpeed);
+
+  const handleSmartRewindToggle = () => savePreference("smartRewind", !smartRewind);
+
+  const handleSmartRewindCrossChaptersToggle = () =>
+    savePreference("smartRewindCrossChapters", !smartRewindCrossChapters);
+
+  const handleStartSleepTimer = (minutes: number) => {
+    startSleepTimer({ type: "duration", minutes });
+    setSleepMenuVisible(false);
+  };
+
+  const handleStartCustomSleepTimer = () => {
+    const minutes = parseInt(customSleepMinutes, 10);
+    if (isNaN(minutes) || minutes <= 0) return;
+    handleStartSleepTimer(minutes);
+    setCustomSleepMinutes("");
+  };
+
+  const handleSleepRewindChange = (seconds: number) => savePreference("sleepTimerRewindSeconds", seconds);
+
+  const handleAddBookmark = () => {
+    const chapter = chapters[currentChapterIndex];
+    if (!chapter) return;
+
+    // Capture the position now so typing a note doesn't move the bookmark
+    setPendingBookmark({ chapterId: chapter.id, positionMs });
+    setBookmarkNote("");
+    setBookmarkModalVisible(true);
+  };
+
+  const handleSaveBookmark = async () => {
+    if (!book || !pendingBookmark) return;
+
+    try {
+      const note = bookmarkNote.trim();
+      await addBookmark(book.id, pendingBookmark.chapterId, pendingBookmark.positionMs, note || undefined);
+    } catch (e) {
+      console.error("Error adding bookmark:", e);
+    }
+    setBookmarkModalVisible(false);
+    setPendingBookmark(null);
   };
 
   const formatTime = (ms: number) => {
@@ -86,6 +268,19 @@ export default function PlayerScreen() {
     return `${minutes}:${seconds.toString().padStart(2, "0")}`;
   };
 
+  const handleSelectChapter = async (index: number) => {
+    setChapterListVisible(false);
+    if (index === currentChapterIndex) return;
+    await goToChapter(index, 0);
+  };
+
+  const handlePlayNextInSeries = async () => {
+    if (!nextInSeries) return;
+    await loadBook(nextInSeries.id);
+    await play();
+    router.replace(`/player/${nextInSeries.id}`);
+  };
+
   const currentChapter = chapters[currentChapterIndex];
 
   if (isInitialLoading) {
@@ -166,9 +361,16 @@ export default function PlayerScreen() {
           </Text>
         )}
         {chapters.length > 1 && (
-          <Text style={styles.chapterCount}>
-            Chapter {currentChapterIndex + 1} of {chapters.length}
-          </Text>
+          <Pressable
+            style={styles.chapterCountButton}
+            onPress={() => setChapterListVisible(true)}
+            hitSlop={8}
+          >
+            <Ionicons name="list" size={14} color={colors.lightGrey} />
+            <Text style={styles.chapterCount}>
+              Chapter {currentChapterIndex + 1} of {chapters.length}
+            </Text>
+          </Pressable>
         )}
       </View>
 
@@ -180,13 +382,40 @@ export default function PlayerScreen() {
         </View>
       )}
 
+      {/* Next in Series */}
+      {nextInSeries && (
+        <View style={styles.nextInSeriesContainer}>
+          <Pressable style={styles.nextInSeriesInfo} onPress={handlePlayNextInSeries}>
+            <Text style={styles.nextInSeriesLabel} numberOfLines={1}>
+              UP NEXT IN {nextInSeries.series_name?.toUpperCase()}
+            </Text>
+            <Text style={styles.nextInSeriesTitle} numberOfLines={1}>
+              {nextInSeries.series_index !== null ? `Book ${nextInSeries.series_index}: ` : ""}
+              {nextInSeries.title}
+            </Text>
+          </Pressable>
+          <Pressable onPress={handlePlayNextInSeries} hitSlop={8}>
+            <Ionicons name="play-circle" size={36} color={colors.red} />
+          </Pressable>
+          <Pressable onPress={dismissNextInSeries} hitSlop={8}>
+            <Ionicons name="close" size={20} color={colors.lightGrey} />
+          </Pressable>
+        </View>
+      )}
+
       {/* Progress Slider */}
       <View style={styles.progressContainer}>
         <Slider
           style={styles.progressSlider}
           minimumValue={0}
           maximumValue={1}
-          value={durationMs > 0 ? positionMs / durationMs : 0}
+          value={
+            isBookTimeline
+              ? bookPositionMs / bookTimeline.totalMs
+              : durationMs > 0
+                ? positionMs / durationMs
+                : 0
+          }
           onSlidingComplete={handleSeek}
           minimumTrackTintColor={colors.red}
           maximumTrackTintColor={colors.mediumGrey}
@@ -194,9 +423,27 @@ export default function PlayerScreen() {
           disabled={isLoading}
         />
         <View style={styles.timeContainer}>
-          <Text style={styles.timeText}>{formatTime(positionMs)}</Text>
-          <Text style={styles.timeText}>{formatTime(durationMs)}</Text>
+          <Text style={styles.timeText}>
+            {formatTime(isBookTimeline ? bookPositionMs : positionMs)}
+          </Text>
+          {chapters.length > 1 && (
+            <Pressable style={styles.timelineToggle} onPress={handleTimelineModeToggle} hitSlop={8}>
+              <Ionicons name="swap-horizontal" size={12} color={colors.lightGrey} />
+              <Text style={styles.timeText}>{isBookTimeline ? "Book" : "Chapter"}</Text>
+            </Pressable>
+          )}
+          <Text style={styles.timeText}>
+            {isBookTimeline
+              ? `-${bookTimeline.isComplete ? "" : "~"}${formatTime(bookRemainingMs)}`
+              : formatTime(durationMs)}
+          </Text>
         </View>
+        {isBookTimeline && (
+          <Text style={styles.remainingText}>
+            {bookTimeline.isComplete ? "" : "About "}
+            {formatTime(bookRemainingMs / playbackSpeed)} left at {playbackSpeed.toFixed(1)}x
+          </Text>
+        )}
       </View>
 
       {/* Playback Controls */}
@@ -215,11 +462,13 @@ export default function PlayerScreen() {
 
         <Pressable
           style={styles.controlButton}
-          onPress={() => seekRelative(-SKIP_SECONDS * 1000)}
+          onPress={() => seekRelative(-skipBackSeconds * 1000)}
+          onLongPress={() => startScrubbing(-1)}
+          onPressOut={stopScrubbing}
         >
           <View style={styles.skipButton}>
             <Ionicons name="play-back" size={32} color={colors.white} />
-            <Text style={styles.skipText}>{SKIP_SECONDS}</Text>
+            <Text style={styles.skipText}>{skipBackSeconds}</Text>
           </View>
         </Pressable>
 
@@ -242,11 +491,13 @@ export default function PlayerScreen() {
 
         <Pressable
           style={styles.controlButton}
-          onPress={() => seekRelative(SKIP_SECONDS * 1000)}
+          onPress={() => seekRelative(skipForwardSeconds * 1000)}
+          onLongPress={() => startScrubbing(1)}
+          onPressOut={stopScrubbing}
         >
           <View style={styles.skipButton}>
             <Ionicons name="play-forward" size={32} color={colors.white} />
-            <Text style={styles.skipText}>{SKIP_SECONDS}</Text>
+            <Text style={styles.skipText}>{skipForwardSeconds}</Text>
           </View>
         </Pressable>
 
@@ -267,34 +518,321 @@ export default function PlayerScreen() {
         </Pressable>
       </View>
 
-      {/* Speed Control */}
+      {/* Speed Control & Sleep Timer */}
       <View style={[styles.speedContainer, { paddingBottom: insets.bottom + 20 }]}>
-        <Pressable
-          style={styles.speedButton}
-          onPress={() => setShowSpeedSlider(!showSpeedSlider)}
-        >
-          <Ionicons name="speedometer-outline" size={20} color={colors.white} />
-          <Text style={styles.speedButtonText}>{playbackSpeed.toFixed(1)}x</Text>
-        </Pressable>
+        <View style={styles.optionsRow}>
+          <Pressable
+            style={styles.speedButton}
+            onPress={() => setShowSpeedSlider(!showSpeedSlider)}
+          >
+            <Ionicons name="speedometer-outline" size={20} color={colors.white} />
+            <Text style={styles.speedButtonText}>{playbackSpeed.toFixed(1)}x</Text>
+          </Pressable>
+
+          <Pressable
+            style={[styles.speedButton, sleepTimer && styles.sleepButtonActive]}
+            onPress={() => setSleepMenuVisible(true)}
+          >
+            <Ionicons name={sleepTimer ? "moon" : "moon-outline"} size={18} color={colors.white} />
+            <Text style={styles.speedButtonText}>
+              {sleepTimer
+                ? sleepTimer.mode === "endOfChapter"
+                  ? `End of chapter · ${formatTime(sleepTimer.remainingMs)}`
+                  : formatTime(sleepTimer.remainingMs)
+                : "Sleep"}
+            </Text>
+          </Pressable>
+
+          <Pressable
+            style={styles.speedButton}
+            onPress={handleAddBookmark}
+            disabled={!currentChapter}
+          >
+            <Ionicons name="bookmark-outline" size={18} color={colors.white} />
+          </Pressable>
+
+          <Pressable
+            style={styles.speedButton}
+            onPress={() => router.push(`/bookmarks/${book.id}`)}
+          >
+            <Ionicons name="list" size={18} color={colors.white} />
+          </Pressable>
+        </View>
 
         {showSpeedSlider && (
           <View style={styles.speedSliderContainer}>
-            <Text style={styles.speedLabel}>{MIN_SPEED}x</Text>
+            <Text style={styles.speedLabel}>{minPlaybackSpeed}x</Text>
             <Slider
               style={styles.speedSlider}
-              minimumValue={MIN_SPEED}
-              maximumValue={MAX_SPEED}
+              minimumValue={minPlaybackSpeed}
+              maximumValue={maxPlaybackSpeed}
               value={playbackSpeed}
               onValueChange={handleSpeedChange}
+              onSlidingComplete={handleSpeedChangeComplete}
               minimumTrackTintColor={colors.red}
               maximumTrackTintColor={colors.mediumGrey}
               thumbTintColor={colors.white}
               step={0.1}
             />
-            <Text style={styles.speedLabel}>{MAX_SPEED}x</Text>
+            <Text style={styles.speedLabel}>{maxPlaybackSpeed}x</Text>
+          </View>
+        )}
+        {showSpeedSlider && (
+          <View style={styles.speedActions}>
+            <Pressable style={styles.speedActionButton} onPress={handleSetDefaultSpeed}>
+              <Text style={styles.speedActionText}>Use {playbackSpeed.toFixed(1)}x for new books</Text>
+            </Pressable>
+            <Pressable style={styles.speedActionButton} onPress={resetPlaybackSpeed}>
+              <Text style={styles.speedActionText}>Reset to default</Text>
+            </Pressable>
+          </View>
+        )}
+        {showSpeedSlider && (
+          <View style={styles.speedActions}>
+            <Pressable
+              style={[styles.speedActionButton, smartRewind && styles.speedActionButtonActive]}
+              onPress={handleSmartRewindToggle}
+            >
+              <Text style={styles.speedActionText}>Smart rewind on resume</Text>
+            </Pressable>
+            {smartRewind && (
+              <Pressable
+                style={[styles.speedActionButton, smartRewindCrossChapters && styles.speedActionButtonActive]}
+                onPress={handleSmartRewindCrossChaptersToggle}
+              >
+                <Text style={styles.speedActionText}>Into previous chapter</Text>
+              </Pressable>
+            )}
+            <Pressable
+              style={[styles.speedActionButton, trimSilence && styles.speedActionButtonActive]}
+              onPress={() => setTrimSilence(!trimSilence)}
+            >
+              <Text style={styles.speedActionText}>Trim silence</Text>
+            </Pressable>
           </View>
         )}
       </View>
+
+      {/* Add Bookmark Modal */}
+      <Modal
+        visible={bookmarkModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setBookmarkModalVisible(false)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setBookmarkModalVisible(false)}
+        >
+          <Pressable style={styles.menuContainer} onPress={() => {}}>
+            <Text style={styles.menuTitle}>
+              Add Bookmark at {formatTime(pendingBookmark?.positionMs ?? 0)}
+            </Text>
+            <TextInput
+              style={styles.noteInput}
+              value={bookmarkNote}
+              onChangeText={setBookmarkNote}
+              placeholder="Note (optional)"
+              placeholderTextColor={colors.lightGrey}
+              multiline
+              autoFocus
+            />
+            <View style={styles.customRow}>
+              <Pressable
+                style={[styles.customButton, styles.secondaryButton]}
+                onPress={() => setBookmarkModalVisible(false)}
+              >
+                <Text style={styles.customButtonText}>Cancel</Text>
+              </Pressable>
+              <Pressable style={[styles.customButton, styles.flexButton]} onPress={handleSaveBookmark}>
+                <Text style={styles.customButtonText}>Save Bookmark</Text>
+              </Pressable>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      {/* Chapter List */}
+      <Modal
+        visible={chapterListVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setChapterListVisible(false)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setChapterListVisible(false)}
+        >
+          <Pressable style={[styles.menuContainer, styles.chapterSheet]} onPress={() => {}}>
+            <Text style={styles.menuTitle}>Chapters</Text>
+            <FlatList
+              data={chapters}
+              keyExtractor={(item) => item.id.toString()}
+              getItemLayout={(_, index) => ({
+                length: CHAPTER_ROW_HEIGHT,
+                offset: CHAPTER_ROW_HEIGHT * index,
+                index,
+              })}
+              // Keep the chapter before the current one in view for context
+              initialScrollIndex={Math.max(0, currentChapterIndex - 1)}
+              renderItem={({ item, index }) => {
+                const isCurrent = index === currentChapterIndex;
+                const isPlayed = index < currentChapterIndex;
+                const lengthMs = getChapterLengthMs(item);
+                const startMs = index < bookTimeline.knownUntil ? bookTimeline.startsMs[index] : null;
+
+                return (
+                  <Pressable
+                    style={[styles.chapterRow, isCurrent && styles.chapterRowCurrent]}
+                    onPress={() => handleSelectChapter(index)}
+                  >
+                    <Ionicons
+                      name={isCurrent ? "volume-high" : isPlayed ? "checkmark-circle" : "ellipse-outline"}
+                      size={20}
+                      color={isCurrent ? colors.red : colors.lightGrey}
+                    />
+                    <View style={styles.chapterRowInfo}>
+                      <Text
+                        style={[styles.chapterRowTitle, isPlayed && styles.chapterRowTitlePlayed]}
+                        numberOfLines={1}
+                      >
+                        {item.title}
+                      </Text>
+                      <Text style={styles.chapterRowMeta} numberOfLines={1}>
+                        {startMs !== null ? `Starts at ${formatTime(startMs)}` : `Chapter ${index + 1}`}
+                      </Text>
+                    </View>
+                    <Text style={styles.chapterRowDuration}>
+                      {isCurrent && durationMs > 0
+                        ? `${formatTime(positionMs)} / ${formatTime(durationMs)}`
+                        : lengthMs > 0
+                          ? formatTime(lengthMs)
+                          : "--:--"}
+                    </Text>
+                  </Pressable>
+                );
+              }}
+            />
+            <Pressable
+              style={styles.menuCancel}
+              onPress={() => setChapterListVisible(false)}
+            >
+              <Text style={styles.menuCancelText}>Close</Text>
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      {/* Sleep Timer Menu */}
+      <Modal
+        visible={sleepMenuVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSleepMenuVisible(false)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setSleepMenuVisible(false)}
+        >
+          <Pressable style={styles.menuContainer} onPress={() => {}}>
+            <Text style={styles.menuTitle}>
+              {sleepTimer
+                ? `Sleep timer · ${formatTime(sleepTimer.remainingMs)} left`
+                : "Sleep Timer"}
+            </Text>
+
+            {sleepTimer ? (
+              <>
+                <View style={styles.chipRow}>
+                  {SLEEP_TIMER_EXTEND_MINUTES.map((minutes) => (
+                    <Pressable
+                      key={minutes}
+                      style={styles.chip}
+                      onPress={() => extendSleepTimer(minutes)}
+                    >
+                      <Text style={styles.chipText}>+{minutes} min</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={styles.menuHint}>
+                  Shake your phone to add {SLEEP_TIMER_SHAKE_EXTEND_MINUTES} minutes
+                </Text>
+                <Pressable
+                  style={styles.menuItem}
+                  onPress={() => {
+                    cancelSleepTimer();
+                    setSleepMenuVisible(false);
+                  }}
+                >
+                  <Ionicons name="close-circle-outline" size={22} color={colors.red} />
+                  <Text style={[styles.menuItemText, styles.menuItemTextDanger]}>
+                    Turn Off Timer
+                  </Text>
+                </Pressable>
+              </>
+            ) : (
+              <>
+                <View style={styles.chipRow}>
+                  {SLEEP_TIMER_MINUTES.map((minutes) => (
+                    <Pressable
+                      key={minutes}
+                      style={styles.chip}
+                      onPress={() => handleStartSleepTimer(minutes)}
+                    >
+                      <Text style={styles.chipText}>{minutes} min</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Pressable
+                  style={styles.menuItem}
+                  onPress={() => {
+                    startSleepTimer({ type: "endOfChapter" });
+                    setSleepMenuVisible(false);
+                  }}
+                >
+                  <Ionicons name="bookmark-outline" size={22} color={colors.white} />
+                  <Text style={styles.menuItemText}>End of Current Chapter</Text>
+                </Pressable>
+                <View style={styles.customRow}>
+                  <TextInput
+                    style={styles.customInput}
+                    value={customSleepMinutes}
+                    onChangeText={setCustomSleepMinutes}
+                    placeholder="Custom minutes"
+                    placeholderTextColor={colors.lightGrey}
+                    keyboardType="number-pad"
+                    returnKeyType="done"
+                    onSubmitEditing={handleStartCustomSleepTimer}
+                  />
+                  <Pressable style={styles.customButton} onPress={handleStartCustomSleepTimer}>
+                    <Text style={styles.customButtonText}>Start</Text>
+                  </Pressable>
+                </View>
+              </>
+            )}
+
+            <Text style={styles.menuSectionLabel}>Rewind when timer ends</Text>
+            <View style={styles.chipRow}>
+              {SLEEP_TIMER_REWIND_OPTIONS.map((seconds) => (
+                <Pressable
+                  key={seconds}
+                  style={[styles.chip, sleepTimerRewindSeconds === seconds && styles.chipActive]}
+                  onPress={() => handleSleepRewindChange(seconds)}
+                >
+                  <Text style={styles.chipText}>{seconds === 0 ? "Off" : `${seconds}s`}</Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Pressable
+              style={styles.menuCancel}
+              onPress={() => setSleepMenuVisible(false)}
+            >
+              <Text style={styles.menuCancelText}>Close</Text>
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
     </View>
   );
 }
@@ -392,6 +930,11 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginBottom: 4,
   },
+  chapterCountButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
   chapterCount: {
     fontSize: 14,
     color: colors.lightGrey,
@@ -410,6 +953,29 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: colors.lightGrey,
   },
+  nextInSeriesContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: colors.mediumGrey,
+    marginHorizontal: 24,
+    padding: 12,
+    borderRadius: 8,
+    gap: 12,
+  },
+  nextInSeriesInfo: {
+    flex: 1,
+  },
+  nextInSeriesLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    marginBottom: 2,
+  },
+  nextInSeriesTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.white,
+  },
   progressContainer: {
     paddingHorizontal: 24,
   },
@@ -426,6 +992,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.lightGrey,
   },
+  timelineToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  remainingText: {
+    fontSize: 12,
+    color: colors.lightGrey,
+    textAlign: "center",
+    marginTop: 4,
+  },
   controlsContainer: {
     flexDirection: "row",
     justifyContent: "center",
@@ -463,6 +1040,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     alignItems: "center",
   },
+  optionsRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 12,
+  },
   speedButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -494,4 +1076,180 @@ const styles = StyleSheet.create({
     minWidth: 30,
     textAlign: "center",
   },
+  speedActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 4,
+  },
+  speedActionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.mediumGrey,
+  },
+  speedActionButtonActive: {
+    borderColor: colors.red,
+  },
+  speedActionText: {
+    fontSize: 12,
+    color: colors.lightGrey,
+  },
+  sleepButtonActive: {
+    backgroundColor: colors.red,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  menuContainer: {
+    backgroundColor: colors.mediumGrey,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  menuTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  menuHint: {
+    fontSize: 13,
+    color: colors.lightGrey,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  menuSectionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  menuItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 14,
+    gap: 12,
+  },
+  menuItemText: {
+    fontSize: 17,
+    color: colors.white,
+  },
+  menuItemTextDanger: {
+    color: colors.red,
+  },
+  menuCancel: {
+    marginTop: 16,
+    paddingVertical: 14,
+    backgroundColor: colors.darkGrey,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  menuCancelText: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: colors.white,
+  },
+  chapterSheet: {
+    maxHeight: "75%",
+  },
+  chapterRow: {
+    height: CHAPTER_ROW_HEIGHT,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    gap: 12,
+  },
+  chapterRowCurrent: {
+    backgroundColor: colors.darkGrey,
+  },
+  chapterRowInfo: {
+    flex: 1,
+  },
+  chapterRowTitle: {
+    fontSize: 15,
+    color: colors.white,
+  },
+  chapterRowTitlePlayed: {
+    color: colors.lightGrey,
+  },
+  chapterRowMeta: {
+    fontSize: 12,
+    color: colors.lightGrey,
+    marginTop: 2,
+  },
+  chapterRowDuration: {
+    fontSize: 13,
+    color: colors.lightGrey,
+    fontVariant: ["tabular-nums"],
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    backgroundColor: colors.darkGrey,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+  },
+  chipActive: {
+    backgroundColor: colors.red,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.white,
+  },
+  customRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  customInput: {
+    flex: 1,
+    backgroundColor: colors.darkGrey,
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: colors.white,
+  },
+  customButton: {
+    backgroundColor: colors.red,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 10,
+  },
+  secondaryButton: {
+    backgroundColor: colors.darkGrey,
+  },
+  flexButton: {
+    flex: 1,
+    alignItems: "center",
+  },
+  noteInput: {
+    backgroundColor: colors.darkGrey,
+    borderRadius: 10,
+    padding: 14,
+    fontSize: 16,
+    color: colors.white,
+    minHeight: 80,
+    textAlignVertical: "top",
+    marginBottom: 16,
+  },
+  customButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.white,
+  },
 });
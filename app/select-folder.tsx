@@ -13,7 +13,12 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { colors } from "@/constants/theme";
-import { pickAudiobooksFolder, scanAndImportFolder } from "@/services/scanner";
+import {
+  ImportSummary,
+  describeImportSummary,
+  pickAudiobooksFolder,
+  scanAndImportFolder,
+} from "@/services/scanner";
 import {
   getAllFolderSources,
   addFolderSource,
@@ -123,23 +128,21 @@ export default function SelectFolderScreen() {
     if (folderSources.length === 0) return;
 
     setIsScanning(true);
-    let totalImported = 0;
+    const total: ImportSummary = { booksAdded: 0, chaptersAdded: 0, chaptersMissing: 0 };
 
     for (const folder of folderSources) {
       setStatus(`Scanning "${folder.name}"...`);
       try {
         const result = await scanAndImportFolder(folder.uri);
-        totalImported += result.booksImported;
+        total.booksAdded += result.summary.booksAdded;
+        total.chaptersAdded += result.summary.chaptersAdded;
+        total.chaptersMissing += result.summary.chaptersMissing;
       } catch (error) {
         console.error(`Error scanning ${folder.name}:`, error);
       }
     }
 
-    setStatus(
-      totalImported > 0
-        ? `Imported ${totalImported} new book${totalImported === 1 ? "" : "s"}`
-        : "No new audiobooks found"
-    );
+    setStatus(describeImportSummary(total));
     setIsScanning(false);
   };
 
@@ -0,0 +1,503 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  StatusBar,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/constants/theme";
+import {
+  Preferences,
+  PreferenceKey,
+  TimelineMode,
+  usePreferences,
+  setPreference,
+  resetPreferences,
+  SKIP_INTERVAL_OPTIONS,
+  SLEEP_TIMER_REWIND_OPTIONS,
+} from "@/services/preferences";
+import { ImportCounts, ImportPlan, exportLibrary, pickBackup, planImport, applyImport } from "@/services/backup";
+
+const DEFAULT_SPEED_OPTIONS = [0.8, 1.0, 1.2, 1.5, 1.75, 2.0];
+const MIN_SPEED_OPTIONS = [0.5, 0.75, 1.0];
+const MAX_SPEED_OPTIONS = [2.0, 2.5, 3.0, 3.5, 4.0];
+const SAVE_INTERVAL_OPTIONS = [2, 5, 10, 30];
+const FOLDER_DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+const TIMELINE_OPTIONS: TimelineMode[] = ["chapter", "book"];
+const DAILY_GOAL_OPTIONS = [0, 15, 30, 45, 60, 90, 120];
+const YEARLY_GOAL_OPTIONS = [0, 6, 12, 24, 36, 52];
+const GRACE_DAY_OPTIONS = [0, 1, 2, 3];
+
+interface ChoiceRowProps<T extends string | number> {
+  label: string;
+  hint?: string;
+  options: T[];
+  value: T;
+  format: (option: T) => string;
+  onChange: (option: T) => void;
+}
+
+function ChoiceRow<T extends string | number>({ label, hint, options, value, format, onChange }: ChoiceRowProps<T>) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      {hint && <Text style={styles.rowHint}>{hint}</Text>}
+      <View style={styles.chipRow}>
+        {options.map((option) => (
+          <Pressable
+            key={option}
+            style={[styles.chip, option === value && styles.chipActive]}
+            onPress={() => onChange(option)}
+          >
+            <Text style={styles.chipText}>{format(option)}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+interface ToggleRowProps {
+  label: string;
+  hint?: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+function ToggleRow({ label, hint, value, onChange }: ToggleRowProps) {
+  return (
+    <View style={[styles.row, styles.toggleRow]}>
+      <View style={styles.toggleText}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        {hint && <Text style={styles.rowHint}>{hint}</Text>}
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ false: colors.mediumGrey, true: colors.red }}
+        thumbColor={colors.white}
+      />
+    </View>
+  );
+}
+
+interface ActionRowProps {
+  label: string;
+  hint?: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  isBusy: boolean;
+  disabled: boolean;
+  onPress: () => void;
+}
+
+function ActionRow({ label, hint, icon, isBusy, disabled, onPress }: ActionRowProps) {
+  return (
+    <Pressable
+      style={[styles.row, styles.toggleRow, disabled && styles.rowDisabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <View style={styles.toggleText}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        {hint && <Text style={styles.rowHint}>{hint}</Text>}
+      </View>
+      {isBusy ? (
+        <ActivityIndicator size="small" color={colors.white} />
+      ) : (
+        <Ionicons name={icon} size={22} color={colors.white} />
+      )}
+    </Pressable>
+  );
+}
+
+function describeCounts(label: string, counts: ImportCounts): string {
+  return `${label}: ${counts.added} new, ${counts.updated} updated, ${counts.skipped} unchanged`;
+}
+
+function describeImport(plan: ImportPlan): string {
+  const { summary } = plan;
+  const exportedAt = new Date(plan.backup.exported_at);
+  const lines = [
+    describeCounts("Books", summary.books),
+    describeCounts("Reading history", summary.history),
+    describeCounts("Listening days", summary.sessions),
+    describeCounts("Folders", summary.folderSources),
+  ];
+  if (plan.booksNotFound > 0) {
+    const books = plan.booksNotFound === 1 ? "1 book isn't" : `${plan.booksNotFound} books aren't`;
+    lines.push("", `${books} on this device and won't be added. Their reading history is still imported.`);
+  }
+  if (!isNaN(exportedAt.getTime())) {
+    lines.unshift(`Backup from ${exportedAt.toLocaleDateString()}`, "");
+  }
+  return lines.join("\n");
+}
+
+function hasChanges(plan: ImportPlan): boolean {
+  return Object.values(plan.summary).some((counts) => counts.added > 0 || counts.updated > 0);
+}
+
+// A value saved from the player may not be one of the preset choices
+function withCurrent(options: number[], value: number): number[] {
+  return options.includes(value) ? options : [...options, value].sort((a, b) => a - b);
+}
+
+const formatSeconds = (seconds: number) => `${seconds}s`;
+const formatSpeed = (speed: number) => `${speed}x`;
+
+export default function SettingsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const preferences = usePreferences();
+  const [backupAction, setBackupAction] = useState<"export" | "import" | null>(null);
+
+  const update = <K extends PreferenceKey>(key: K, value: Preferences[K]) => {
+    setPreference(key, value).catch((e) => console.warn(`Error saving preference "${key}":`, e));
+  };
+
+  const handleReset = () => {
+    Alert.alert("Reset Settings", "Put every setting back to its default? Your library is not affected.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Reset",
+        style: "destructive",
+        onPress: () => {
+          resetPreferences().catch((e) => console.warn("Error resetting preferences:", e));
+        },
+      },
+    ]);
+  };
+
+  const handleExport = async () => {
+    setBackupAction("export");
+    try {
+      await exportLibrary();
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      Alert.alert("Export Failed", message);
+    } finally {
+      setBackupAction(null);
+    }
+  };
+
+  const runImport = async (plan: ImportPlan) => {
+    setBackupAction("import");
+    try {
+      await applyImport(plan);
+      Alert.alert("Import Complete", "Your library, progress and history have been updated.");
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      Alert.alert("Import Failed", `Nothing was changed. ${message}`);
+    } finally {
+      setBackupAction(null);
+    }
+  };
+
+  // Shows what the backup would change and only writes it once confirmed
+  const handleImport = async () => {
+    setBackupAction("import");
+    try {
+      const backup = await pickBackup();
+      if (!backup) return;
+
+      const plan = await planImport(backup);
+      if (!hasChanges(plan)) {
+        Alert.alert("Nothing to Import", "Everything in this backup is already in your library.");
+        return;
+      }
+      Alert.alert("Import Backup", describeImport(plan), [
+        { text: "Cancel", style: "cancel" },
+        { text: "Import", onPress: () => runImport(plan) },
+      ]);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      Alert.alert("Import Failed", message);
+    } finally {
+      setBackupAction(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 5 }]}>
+        <Pressable style={styles.backButton} onPress={() => router.back()} hitSlop={8}>
+          <Ionicons name="chevron-back" size={28} color={colors.white} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Settings</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}>
+        <Text style={styles.sectionTitle}>Playback</Text>
+        <View style={styles.section}>
+          <ChoiceRow
+            label="Skip back"
+            options={SKIP_INTERVAL_OPTIONS}
+            value={preferences.skipBackSeconds}
+            format={formatSeconds}
+            onChange={(seconds) => update("skipBackSeconds", seconds)}
+          />
+          <ChoiceRow
+            label="Skip forward"
+            options={SKIP_INTERVAL_OPTIONS}
+            value={preferences.skipForwardSeconds}
+            format={formatSeconds}
+            onChange={(seconds) => update("skipForwardSeconds", seconds)}
+          />
+          <ChoiceRow
+            label="Speed for new books"
+            options={withCurrent(DEFAULT_SPEED_OPTIONS, preferences.defaultPlaybackSpeed)}
+            value={preferences.defaultPlaybackSpeed}
+            format={formatSpeed}
+            onChange={(speed) => update("defaultPlaybackSpeed", speed)}
+          />
+          <ChoiceRow
+            label="Slowest speed"
+            options={MIN_SPEED_OPTIONS}
+            value={preferences.minPlaybackSpeed}
+            format={formatSpeed}
+            onChange={(speed) => update("minPlaybackSpeed", speed)}
+          />
+          <ChoiceRow
+            label="Fastest speed"
+            options={MAX_SPEED_OPTIONS}
+            value={preferences.maxPlaybackSpeed}
+            format={formatSpeed}
+            onChange={(speed) => update("maxPlaybackSpeed", speed)}
+          />
+          <ChoiceRow
+            label="Progress bar"
+            options={TIMELINE_OPTIONS}
+            value={preferences.timelineMode}
+            format={(mode) => (mode === "book" ? "Whole book" : "Chapter")}
+            onChange={(mode) => update("timelineMode", mode)}
+          />
+          <ToggleRow
+            label="Smart rewind on resume"
+            hint="Rewinds a few seconds, more the longer playback was paused"
+            value={preferences.smartRewind}
+            onChange={(value) => update("smartRewind", value)}
+          />
+          {preferences.smartRewind && (
+            <ToggleRow
+              label="Rewind into previous chapter"
+              value={preferences.smartRewindCrossChapters}
+              onChange={(value) => update("smartRewindCrossChapters", value)}
+            />
+          )}
+          <ChoiceRow
+            label="Rewind when sleep timer ends"
+            options={SLEEP_TIMER_REWIND_OPTIONS}
+            value={preferences.sleepTimerRewindSeconds}
+            format={(seconds) => (seconds === 0 ? "Off" : formatSeconds(seconds))}
+            onChange={(seconds) => update("sleepTimerRewindSeconds", seconds)}
+          />
+          <ChoiceRow
+            label="Save position every"
+            options={SAVE_INTERVAL_OPTIONS}
+            value={preferences.progressSaveIntervalSeconds}
+            format={formatSeconds}
+            onChange={(seconds) => update("progressSaveIntervalSeconds", seconds)}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Library</Text>
+        <View style={styles.section}>
+          <ToggleRow
+            label="Group by series"
+            value={preferences.libraryView.groupBySeries}
+            onChange={(value) => update("libraryView", { ...preferences.libraryView, groupBySeries: value })}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Scanning</Text>
+        <View style={styles.section}>
+          <ToggleRow
+            label="Scan folders on launch"
+            hint="Looks for new books and chapters each time the app opens"
+            value={preferences.scanOnLaunch}
+            onChange={(value) => update("scanOnLaunch", value)}
+          />
+          <ChoiceRow
+            label="Folder depth"
+            hint="How many folders deep to look for books, e.g. 3 for Author/Series/Book"
+            options={FOLDER_DEPTH_OPTIONS}
+            value={preferences.maxFolderDepth}
+            format={String}
+            onChange={(depth) => update("maxFolderDepth", depth)}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Analytics</Text>
+        <View style={styles.section}>
+          <ToggleRow
+            label="Track listening time"
+            hint="Records how long you listen each day for the analytics screens"
+            value={preferences.trackListeningTime}
+            onChange={(value) => update("trackListeningTime", value)}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Goals</Text>
+        <View style={styles.section}>
+          <ChoiceRow
+            label="Daily listening"
+            hint="Days that reach this count toward your streak. Days follow this device's clock; listening recorded by earlier versions of the app stays on UTC days."
+            options={withCurrent(DAILY_GOAL_OPTIONS, preferences.dailyGoalMinutes)}
+            value={preferences.dailyGoalMinutes}
+            format={(minutes) => (minutes === 0 ? "Off" : `${minutes} min`)}
+            onChange={(minutes) => update("dailyGoalMinutes", minutes)}
+          />
+          <ChoiceRow
+            label="Books per year"
+            options={withCurrent(YEARLY_GOAL_OPTIONS, preferences.yearlyBookGoal)}
+            value={preferences.yearlyBookGoal}
+            format={(books) => (books === 0 ? "Off" : String(books))}
+            onChange={(books) => update("yearlyBookGoal", books)}
+          />
+          <ChoiceRow
+            label="Grace days"
+            hint="Days in a row you can miss without losing your streak"
+            options={withCurrent(GRACE_DAY_OPTIONS, preferences.streakGraceDays)}
+            value={preferences.streakGraceDays}
+            format={String}
+            onChange={(days) => update("streakGraceDays", days)}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Backup</Text>
+        <View style={styles.section}>
+          <ActionRow
+            label="Export library"
+            hint="Saves books, progress and listening history to one file. Audio files aren't included."
+            icon="share-outline"
+            isBusy={backupAction === "export"}
+            disabled={backupAction !== null}
+            onPress={handleExport}
+          />
+          <ActionRow
+            label="Import backup"
+            hint="Merges a backup into this library. You'll see what changes before anything is saved."
+            icon="download-outline"
+            isBusy={backupAction === "import"}
+            disabled={backupAction !== null}
+            onPress={handleImport}
+          />
+        </View>
+
+        <Pressable style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.darkGrey,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "bold",
+    color: colors.white,
+    textAlign: "center",
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  content: {
+    paddingHorizontal: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.lightGrey,
+    textTransform: "uppercase",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  section: {
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+  },
+  row: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.darkGrey,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  rowDisabled: {
+    opacity: 0.5,
+  },
+  toggleText: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 15,
+    color: colors.white,
+  },
+  rowHint: {
+    fontSize: 12,
+    color: colors.lightGrey,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: colors.darkGrey,
+  },
+  chipActive: {
+    backgroundColor: colors.red,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.white,
+  },
+  resetButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    backgroundColor: colors.mediumGrey,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.red,
+  },
+});
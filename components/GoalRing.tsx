@@ -0,0 +1,81 @@
+import { View, Text, StyleSheet } from "react-native";
+import Svg, { Circle } from "react-native-svg";
+import { colors } from "@/constants/theme";
+
+const RING_SIZE = 96;
+const STROKE_WIDTH = 9;
+const RADIUS = (RING_SIZE - STROKE_WIDTH) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+interface GoalRingProps {
+  // 0 to 1; anything over 1 shows a full ring
+  progress: number;
+  value: string;
+  label: string;
+}
+
+export default function GoalRing({ progress, value, label }: GoalRingProps) {
+  const clamped = Math.min(1, Math.max(0, progress));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.ring}>
+        {/* Rotated so the ring fills clockwise from the top */}
+        <Svg width={RING_SIZE} height={RING_SIZE} style={styles.svg}>
+          <Circle
+            cx={RING_SIZE / 2}
+            cy={RING_SIZE / 2}
+            r={RADIUS}
+            stroke={colors.darkGrey}
+            strokeWidth={STROKE_WIDTH}
+            fill="none"
+          />
+          {clamped > 0 && (
+            <Circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={RADIUS}
+              stroke={colors.red}
+              strokeWidth={STROKE_WIDTH}
+              strokeLinecap="round"
+              strokeDasharray={`${CIRCUMFERENCE} ${CIRCUMFERENCE}`}
+              strokeDashoffset={CIRCUMFERENCE * (1 - clamped)}
+              fill="none"
+            />
+          )}
+        </Svg>
+        <Text style={styles.value} numberOfLines={1} adjustsFontSizeToFit>
+          {value}
+        </Text>
+      </View>
+      <Text style={styles.label}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    gap: 8,
+  },
+  ring: {
+    width: RING_SIZE,
+    height: RING_SIZE,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  svg: {
+    position: "absolute",
+    transform: [{ rotate: "-90deg" }],
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: colors.white,
+    paddingHorizontal: STROKE_WIDTH + 4,
+  },
+  label: {
+    fontSize: 12,
+    color: colors.lightGrey,
+  },
+});
@@ -0,0 +1,195 @@
+import { useMemo, useRef } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { colors } from "@/constants/theme";
+import { toLocalDateString } from "@/services/dates";
+
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+const COLUMN_WIDTH = CELL_SIZE + CELL_GAP;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+// Rows run Sunday to Saturday; only every other one is labelled
+const WEEKDAY_LABELS = ["", "Mon", "", "Wed", "", "Fri", ""];
+
+// Minutes at which a day moves up a shade
+const LEVEL_MINUTES = [15, 30, 60];
+const LEVEL_COLORS = [
+  colors.darkGrey,
+  "rgba(230, 57, 70, 0.3)",
+  "rgba(230, 57, 70, 0.55)",
+  "rgba(230, 57, 70, 0.8)",
+  colors.red,
+];
+
+interface ListeningHeatmapProps {
+  year: number;
+  days: { date: string; duration_ms: number }[];
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+}
+
+function getLevel(durationMs: number): number {
+  if (durationMs <= 0) return 0;
+  const minutes = durationMs / 60000;
+  return 1 + LEVEL_MINUTES.filter((threshold) => minutes >= threshold).length;
+}
+
+// Columns of seven YYYY-MM-DD dates, Sunday first. Null pads the days before
+// Jan 1 and after Dec 31. Session dates are the device's local dates; UTC is
+// only used to step through the calendar so DST changes don't skip or repeat a day.
+function buildWeeks(year: number): (string | null)[][] {
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  const weeks: (string | null)[][] = [];
+  let week: (string | null)[] = new Array(new Date(start).getUTCDay()).fill(null);
+
+  for (let time = start; time < end; time += DAY_MS) {
+    week.push(new Date(time).toISOString().slice(0, 10));
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+  if (week.length > 0) {
+    weeks.push([...week, ...new Array(7 - week.length).fill(null)]);
+  }
+  return weeks;
+}
+
+export default function ListeningHeatmap({ year, days, selectedDate, onSelectDate }: ListeningHeatmapProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const weeks = useMemo(() => buildWeeks(year), [year]);
+  const durations = useMemo(() => new Map(days.map((day) => [day.date, day.duration_ms])), [days]);
+  const today = toLocalDateString(new Date());
+
+  // Each month is labelled above the week its first day falls in
+  const monthLabels = weeks.flatMap((week, index) => {
+    const first = week.find((date) => date?.endsWith("-01"));
+    return first ? [{ index, label: MONTH_LABELS[parseInt(first.slice(5, 7), 10) - 1] }] : [];
+  });
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        <View style={styles.weekdayColumn}>
+          {WEEKDAY_LABELS.map((label, index) => (
+            <Text key={index} style={styles.weekdayLabel}>
+              {label}
+            </Text>
+          ))}
+        </View>
+        <ScrollView
+          ref={scrollRef}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          // The current year opens on the most recent weeks
+          onContentSizeChange={() => {
+            if (year === new Date().getFullYear()) scrollRef.current?.scrollToEnd({ animated: false });
+          }}
+        >
+          <View>
+            <View style={[styles.monthRow, { width: weeks.length * COLUMN_WIDTH }]}>
+              {monthLabels.map(({ index, label }) => (
+                <Text key={label} style={[styles.monthLabel, { left: index * COLUMN_WIDTH }]}>
+                  {label}
+                </Text>
+              ))}
+            </View>
+            <View style={styles.weeks}>
+              {weeks.map((week, weekIndex) => (
+                <View key={weekIndex} style={styles.week}>
+                  {week.map((date, dayIndex) =>
+                    date ? (
+                      <Pressable
+                        key={date}
+                        style={[
+                          styles.cell,
+                          { backgroundColor: LEVEL_COLORS[getLevel(durations.get(date) ?? 0)] },
+                          date > today && styles.cellFuture,
+                          date === selectedDate && styles.cellSelected,
+                        ]}
+                        onPress={() => onSelectDate(date)}
+                        disabled={date > today}
+                        hitSlop={2}
+                      />
+                    ) : (
+                      <View key={`empty-${dayIndex}`} style={styles.cellEmpty} />
+                    )
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Less</Text>
+        {LEVEL_COLORS.map((color) => (
+          <View key={color} style={[styles.cell, { backgroundColor: color }]} />
+        ))}
+        <Text style={styles.legendText}>More</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: "row",
+  },
+  weekdayColumn: {
+    marginTop: 16,
+    marginRight: 6,
+    gap: CELL_GAP,
+  },
+  weekdayLabel: {
+    height: CELL_SIZE,
+    fontSize: 9,
+    lineHeight: CELL_SIZE,
+    color: colors.lightGrey,
+  },
+  monthRow: {
+    height: 16,
+  },
+  monthLabel: {
+    position: "absolute",
+    fontSize: 10,
+    color: colors.lightGrey,
+  },
+  weeks: {
+    flexDirection: "row",
+    gap: CELL_GAP,
+  },
+  week: {
+    gap: CELL_GAP,
+  },
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 2,
+  },
+  cellEmpty: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+  },
+  cellFuture: {
+    opacity: 0.4,
+  },
+  cellSelected: {
+    borderWidth: 1.5,
+    borderColor: colors.white,
+  },
+  legend: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    gap: 4,
+    marginTop: 10,
+  },
+  legendText: {
+    fontSize: 10,
+    color: colors.lightGrey,
+    marginHorizontal: 2,
+  },
+});
@@ -0,0 +1,109 @@
+import { View, Text, StyleSheet, Pressable, Image } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { usePathname, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/constants/theme";
+import { useAudio } from "@/services/audioContext";
+
+// Screens that show the bar; the full player and the editing screens don't need it
+function showsMiniPlayer(pathname: string): boolean {
+  return pathname === "/" || pathname === "/select-folder" || pathname.startsWith("/analytics");
+}
+
+export default function MiniPlayer() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const pathname = usePathname();
+  const { state, togglePlayback } = useAudio();
+  const { book, chapters, currentChapterIndex, isPlaying, positionMs, durationMs } = state;
+
+  // Nothing loaded, or stopAndUnload has cleared the state
+  if (!book || !showsMiniPlayer(pathname)) return null;
+
+  const currentChapter = chapters[currentChapterIndex];
+  const progressPercent = durationMs > 0 ? Math.min(100, (positionMs / durationMs) * 100) : 0;
+
+  return (
+    <Pressable
+      style={[styles.container, { paddingBottom: insets.bottom + 8 }]}
+      onPress={() => router.push(`/player/${book.id}`)}
+    >
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${progressPercent}%` }]} />
+      </View>
+      <View style={styles.row}>
+        <View style={styles.cover}>
+          {book.cover_path ? (
+            <Image source={{ uri: book.cover_path }} style={styles.coverImage} />
+          ) : (
+            <Ionicons name="book" size={22} color={colors.lightGrey} />
+          )}
+        </View>
+        <View style={styles.info}>
+          <Text style={styles.bookTitle} numberOfLines={1}>
+            {book.title}
+          </Text>
+          {currentChapter && (
+            <Text style={styles.chapterTitle} numberOfLines={1}>
+              {currentChapter.title}
+            </Text>
+          )}
+        </View>
+        <Pressable style={styles.playButton} onPress={togglePlayback} hitSlop={8}>
+          <Ionicons name={isPlaying ? "pause" : "play"} size={28} color={colors.white} />
+        </Pressable>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.mediumGrey,
+  },
+  progressTrack: {
+    height: 2,
+    backgroundColor: colors.darkGrey,
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: colors.red,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    gap: 12,
+  },
+  cover: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    backgroundColor: colors.darkGrey,
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  coverImage: {
+    width: "100%",
+    height: "100%",
+    resizeMode: "cover",
+  },
+  info: {
+    flex: 1,
+  },
+  bookTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.white,
+  },
+  chapterTitle: {
+    fontSize: 13,
+    color: colors.lightGrey,
+    marginTop: 2,
+  },
+  playButton: {
+    padding: 4,
+  },
+});
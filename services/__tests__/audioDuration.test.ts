@@ -0,0 +1,98 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { readAudioDurationMs } from "../audioDuration";
+import {
+  bytes,
+  uint16LE,
+  uint32BE,
+  uint32LE,
+  makeFixtureDir,
+  writeFixture,
+  id3Tag,
+  id3TextFrame,
+  mp4Box,
+  mp4Mvhd,
+  mp3Frame,
+  mp3XingFrame,
+  oggPage,
+} from "./support/fixtures";
+
+function wavFile(byteRate: number, dataSize: number): Uint8Array {
+  // PCM, mono, 16-bit
+  const fmt = bytes(
+    "fmt ",
+    uint32LE(16),
+    uint16LE(1),
+    uint16LE(1),
+    uint32LE(byteRate / 2),
+    uint32LE(byteRate),
+    uint16LE(2),
+    uint16LE(16)
+  );
+  const data = bytes("data", uint32LE(dataSize), new Array(dataSize).fill(0));
+  return bytes("RIFF", uint32LE(4 + fmt.length + data.length), "WAVE", fmt, data);
+}
+
+// STREAMINFO: block/frame size limits, then 20 bits of sample rate and 36 of sample count
+function flacFile(sampleRate: number, totalSamples: number): Uint8Array {
+  const streamInfo = bytes(
+    new Array(10).fill(0),
+    [(sampleRate >> 12) & 0xff, (sampleRate >> 4) & 0xff, (sampleRate & 0x0f) << 4, 0],
+    uint32BE(totalSamples),
+    new Array(16).fill(0)
+  );
+  return bytes("fLaC", [0x80], [0, 0, streamInfo.length], streamInfo);
+}
+
+describe("readAudioDurationMs", () => {
+  let dir: string;
+
+  before(() => {
+    dir = makeFixtureDir("duration");
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("divides WAV data by the byte rate", async () => {
+    const file = writeFixture(dir, "book.wav", wavFile(16000, 32000));
+    assert.equal(await readAudioDurationMs(file, "book.wav"), 2000);
+  });
+
+  test("reads the FLAC sample count", async () => {
+    const file = writeFixture(dir, "book.flac", flacFile(44100, 441000));
+    assert.equal(await readAudioDurationMs(file, "book.flac"), 10000);
+  });
+
+  test("reads the granule position of the last Ogg page", async () => {
+    const head = bytes("\u0001vorbis", uint32LE(0), [2], uint32LE(44100), new Array(13).fill(0));
+    const file = writeFixture(dir, "book.ogg", oggPage(0, head), oggPage(132300, bytes([0, 1, 2, 3])));
+    assert.equal(await readAudioDurationMs(file, "book.ogg"), 3000);
+  });
+
+  test("reads the MP4 movie header", async () => {
+    const file = writeFixture(dir, "book.m4b", mp4Box("ftyp", "M4B "), mp4Box("moov", mp4Mvhd(1000, 3600000)));
+    assert.equal(await readAudioDurationMs(file, "book.m4b"), 3600000);
+  });
+
+  test("uses the frame count from an MP3 Xing header", async () => {
+    const file = writeFixture(dir, "vbr.mp3", mp3XingFrame(1000), mp3Frame(), mp3Frame());
+    // 1000 frames of 1152 samples at 44.1 kHz
+    assert.equal(await readAudioDurationMs(file, "vbr.mp3"), 26122);
+  });
+
+  test("works out a constant bitrate MP3 from its size, after the ID3 tag", async () => {
+    const frames = Array.from({ length: 40 }, () => mp3Frame());
+    const file = writeFixture(dir, "cbr.mp3", id3Tag([id3TextFrame("TIT2", "Tagged")]), ...frames);
+    // 40 frames of 417 bytes at 128 kbps
+    assert.equal(await readAudioDurationMs(file, "cbr.mp3"), Math.round((40 * 417 * 8) / 128));
+  });
+
+  test("has no length for an unrecognised or empty file", async () => {
+    assert.equal(await readAudioDurationMs(writeFixture(dir, "noise.mp3", new Array(1024).fill(7)), "noise.mp3"), null);
+    assert.equal(await readAudioDurationMs(writeFixture(dir, "empty.wav"), "empty.wav"), null);
+    assert.equal(await readAudioDurationMs(writeFixture(dir, "book.aiff", "FORM"), "book.aiff"), null);
+  });
+});
@@ -0,0 +1,103 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { readCueSheet, parseCueSheet, getCueChapters } from "../cueSheet";
+import { makeFixtureDir, writeFixture } from "./support/fixtures";
+
+const SHEET = `REM GENRE Audiobook
+PERFORMER "Charles Dickens"
+TITLE "Great Expectations"
+FILE "great-expectations.mp3" MP3
+  TRACK 01 AUDIO
+    TITLE "Chapter I"
+    INDEX 01 00:00:00
+  TRACK 02 AUDIO
+    TITLE "Chapter II"
+    PERFORMER "Narrator"
+    INDEX 00 12:29:50
+    INDEX 01 12:30:37
+  TRACK 03 AUDIO
+    INDEX 01 25:00:00
+`;
+
+describe("parseCueSheet", () => {
+  test("reads the sheet and each track's INDEX 01", () => {
+    assert.deepEqual(parseCueSheet(SHEET), {
+      title: "Great Expectations",
+      performer: "Charles Dickens",
+      file: "great-expectations.mp3",
+      tracks: [
+        { number: 1, title: "Chapter I", startMs: 0 },
+        { number: 2, title: "Chapter II", performer: "Narrator", startMs: 750493 },
+        { number: 3, startMs: 1500000 },
+      ],
+    });
+  });
+
+  test("accepts a byte order mark and Windows line endings", () => {
+    const sheet = parseCueSheet("﻿" + SHEET.replace(/\n/g, "\r\n"));
+    assert.equal(sheet.title, "Great Expectations");
+    assert.equal(sheet.tracks.length, 3);
+  });
+
+  test("names the line of a malformed entry", () => {
+    assert.throws(() => parseCueSheet("TRACK 01 AUDIO"), { message: "line 1: TRACK appears before any FILE" });
+    assert.throws(() => parseCueSheet('FILE "a.mp3" MP3\nTRACK one AUDIO'), {
+      message: "line 2: invalid track number",
+    });
+    assert.throws(() => parseCueSheet('FILE "a.mp3" MP3\nINDEX 01 00:00:00'), {
+      message: "line 2: INDEX appears outside a TRACK",
+    });
+    assert.throws(() => parseCueSheet('FILE "a.mp3" MP3\nTRACK 01 AUDIO\nINDEX 01 00:61:00'), {
+      message: 'line 3: invalid INDEX time "00:61:00"',
+    });
+  });
+
+  test("rejects sheets that can't become chapters", () => {
+    assert.throws(() => parseCueSheet("TITLE Nothing"), { message: "no FILE entry" });
+    assert.throws(() => parseCueSheet('FILE "a.mp3" MP3\nFILE "b.mp3" MP3'), {
+      message: "it refers to more than one audio file",
+    });
+    assert.throws(() => parseCueSheet('FILE "a.mp3" MP3'), { message: "no TRACK entries" });
+    assert.throws(() => parseCueSheet('FILE "a.mp3" MP3\nTRACK 01 AUDIO\nINDEX 00 00:00:00'), {
+      message: "track 1 has no INDEX 01",
+    });
+    assert.throws(
+      () => parseCueSheet('FILE "a.mp3" MP3\nTRACK 01 AUDIO\nINDEX 01 01:00:00\nTRACK 02 AUDIO\nINDEX 01 00:30:00'),
+      { message: "track 2 starts before the previous track" }
+    );
+  });
+});
+
+describe("getCueChapters", () => {
+  test("runs each chapter to the next and the last to the end of the file", () => {
+    assert.deepEqual(getCueChapters(parseCueSheet(SHEET)), [
+      { title: "Chapter I", startMs: 0, endMs: 750493 },
+      { title: "Chapter II", startMs: 750493, endMs: 1500000 },
+      { title: "Chapter 3", startMs: 1500000, endMs: null },
+    ]);
+  });
+});
+
+describe("readCueSheet", () => {
+  let dir: string;
+
+  before(() => {
+    dir = makeFixtureDir("cue");
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("falls back to Latin-1 for sheets that aren't UTF-8", async () => {
+    const text = 'TITLE "Les Misérables"\nFILE "book.mp3" MP3\nTRACK 01 AUDIO\nINDEX 01 00:00:00\n';
+    const file = writeFixture(dir, "latin1.cue", Array.from(Buffer.from(text, "latin1")));
+
+    assert.equal((await readCueSheet(file)).title, "Les Misérables");
+  });
+
+  test("rejects an empty file", async () => {
+    await assert.rejects(readCueSheet(writeFixture(dir, "empty.cue")), { message: "the file is empty" });
+  });
+});
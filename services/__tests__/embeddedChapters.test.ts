@@ -0,0 +1,146 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { readEmbeddedChapters } from "../embeddedChapters";
+import {
+  bytes,
+  utf8,
+  uint16BE,
+  uint32BE,
+  makeFixtureDir,
+  writeFixture,
+  id3Frame,
+  id3TextFrame,
+  id3Tag,
+  mp4Box,
+  mp4Mvhd,
+} from "./support/fixtures";
+
+function chapFrame(id: string, startMs: number, endMs: number, title?: string): Uint8Array {
+  const subFrames = title ? id3TextFrame("TIT2", title) : [];
+  return id3Frame("CHAP", bytes(id, [0], uint32BE(startMs), uint32BE(endMs), uint32BE(0), uint32BE(0), subFrames));
+}
+
+// A top-level, ordered table of contents
+function ctocFrame(...childIds: string[]): Uint8Array {
+  return id3Frame("CTOC", bytes("toc", [0], [0x03], [childIds.length], ...childIds.map((id) => bytes(id, [0]))));
+}
+
+function tkhd(trackId: number): Uint8Array {
+  return mp4Box("tkhd", uint32BE(0), uint32BE(0), uint32BE(0), uint32BE(trackId), new Array(68).fill(0));
+}
+
+// A text track whose samples all sit in one chunk at `sampleOffset`
+function chapterTrak(trackId: number, sampleSizes: number[], sampleDelta: number, sampleOffset: number): Uint8Array {
+  const stbl = mp4Box(
+    "stbl",
+    mp4Box("stts", uint32BE(0), uint32BE(1), uint32BE(sampleSizes.length), uint32BE(sampleDelta)),
+    mp4Box("stsz", uint32BE(0), uint32BE(0), uint32BE(sampleSizes.length), ...sampleSizes.map(uint32BE)),
+    mp4Box("stsc", uint32BE(0), uint32BE(1), uint32BE(1), uint32BE(sampleSizes.length), uint32BE(1)),
+    mp4Box("stco", uint32BE(0), uint32BE(1), uint32BE(sampleOffset))
+  );
+  const mdhd = mp4Box("mdhd", uint32BE(0), uint32BE(0), uint32BE(0), uint32BE(1000), uint32BE(0), uint32BE(0));
+  return mp4Box("trak", tkhd(trackId), mp4Box("mdia", mdhd, mp4Box("minf", stbl)));
+}
+
+describe("readEmbeddedChapters", () => {
+  let dir: string;
+
+  before(() => {
+    dir = makeFixtureDir("chapters");
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("orders MP3 chapters by the table of contents", async () => {
+    const tag = id3Tag([
+      chapFrame("ch2", 60000, 120000, "Second"),
+      chapFrame("ch1", 0, 60000, "First"),
+      chapFrame("ch3", 120000, 185000),
+      ctocFrame("ch1", "ch2", "ch3"),
+    ]);
+    const file = writeFixture(dir, "book.mp3", tag);
+
+    assert.deepEqual(await readEmbeddedChapters(file, "book.mp3"), [
+      { title: "First", startMs: 0, endMs: 60000 },
+      { title: "Second", startMs: 60000, endMs: 120000 },
+      { title: "Chapter 3", startMs: 120000, endMs: 185000 },
+    ]);
+  });
+
+  test("sorts MP3 chapters by start time without a table of contents", async () => {
+    const tag = id3Tag([chapFrame("b", 30000, 75000, "B"), chapFrame("a", 0, 0xffffffff, "A")]);
+    const file = writeFixture(dir, "unordered.mp3", tag);
+
+    assert.deepEqual(await readEmbeddedChapters(file, "unordered.mp3"), [
+      { title: "A", startMs: 0, endMs: 30000 },
+      { title: "B", startMs: 30000, endMs: 75000 },
+    ]);
+  });
+
+  test("ignores a file with a single chapter", async () => {
+    const file = writeFixture(dir, "single.mp3", id3Tag([chapFrame("ch1", 0, 60000, "Only")]));
+    assert.deepEqual(await readEmbeddedChapters(file, "single.mp3"), []);
+  });
+
+  test("reads Nero chapters and ends the last one at the movie length", async () => {
+    const entries = [
+      [0, "Opening"],
+      [45000, "Middle"],
+    ] as const;
+    const chpl = mp4Box(
+      "chpl",
+      [1, 0, 0, 0],
+      uint32BE(0),
+      [entries.length],
+      ...entries.map(([startMs, title]) =>
+        bytes(uint32BE(0), uint32BE(startMs * 10000), [utf8(title).length], utf8(title))
+      )
+    );
+    const file = writeFixture(dir, "nero.m4b", mp4Box("moov", mp4Mvhd(1000, 90000), mp4Box("udta", chpl)));
+
+    assert.deepEqual(await readEmbeddedChapters(file, "nero.m4b"), [
+      { title: "Opening", startMs: 0, endMs: 45000 },
+      { title: "Middle", startMs: 45000, endMs: 90000 },
+    ]);
+  });
+
+  test("reads a QuickTime chapter track", async () => {
+    const samples = ["Prologue", "Part One", "Part Two"].map((title) =>
+      bytes(uint16BE(utf8(title).length), utf8(title))
+    );
+    const sizes = samples.map((s) => s.length);
+
+    const buildMoov = (sampleOffset: number) =>
+      mp4Box(
+        "moov",
+        mp4Mvhd(1000, 60000),
+        mp4Box("trak", tkhd(1), mp4Box("tref", mp4Box("chap", uint32BE(2)))),
+        chapterTrak(2, sizes, 20000, sampleOffset)
+      );
+    // The chunk offset doesn't change the size of moov, so measure it first
+    const ftyp = mp4Box("ftyp", "M4B ");
+    const moov = buildMoov(ftyp.length + buildMoov(0).length + 8);
+    const file = writeFixture(dir, "quicktime.m4b", ftyp, moov, mp4Box("mdat", ...samples));
+
+    assert.deepEqual(await readEmbeddedChapters(file, "quicktime.m4b"), [
+      { title: "Prologue", startMs: 0, endMs: 20000 },
+      { title: "Part One", startMs: 20000, endMs: 40000 },
+      { title: "Part Two", startMs: 40000, endMs: 60000 },
+    ]);
+  });
+
+  test("has no chapters when the chapter samples lie past the end of the file", async () => {
+    const moov = mp4Box(
+      "moov",
+      mp4Mvhd(1000, 60000),
+      mp4Box("trak", tkhd(1), mp4Box("tref", mp4Box("chap", uint32BE(2)))),
+      chapterTrak(2, [10, 10], 20000, 1024 * 1024)
+    );
+    const file = writeFixture(dir, "damaged.m4b", moov);
+
+    assert.deepEqual(await readEmbeddedChapters(file, "damaged.m4b"), []);
+  });
+});
@@ -0,0 +1,181 @@
+import { test, describe, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { readAudioMetadata } from "../metadata";
+import { reads } from "./support/fileSystem";
+import {
+  bytes,
+  utf8,
+  uint32BE,
+  uint32LE,
+  syncsafe,
+  makeFixtureDir,
+  writeFixture,
+  id3Frame,
+  id3TextFrame,
+  id3Tag,
+  mp4Box,
+  mp4TextItem,
+  oggPage,
+} from "./support/fixtures";
+
+const COVER_BYTES = 2 * 1024 * 1024;
+
+function id3v1Tag(title: string, artist: string, album: string, track: number): Uint8Array {
+  const field = (text: string, length: number) => bytes(text, new Array(length - text.length).fill(0));
+  // Year and a 28-byte comment, then ID3v1.1's zero byte, track number and genre
+  const rest = bytes(field("", 4), field("", 28), [0, track, 0]);
+  return bytes("TAG", field(title, 30), field(artist, 30), field(album, 30), rest);
+}
+
+function vorbisComments(...comments: string[]): Uint8Array {
+  const vendor = utf8("test");
+  return bytes(
+    uint32LE(vendor.length),
+    vendor,
+    uint32LE(comments.length),
+    ...comments.map((c) => bytes(uint32LE(utf8(c).length), utf8(c)))
+  );
+}
+
+function largestRead(): number {
+  return Math.max(0, ...reads.map((r) => r.length));
+}
+
+function totalRead(): number {
+  return reads.reduce((sum, r) => sum + r.length, 0);
+}
+
+describe("readAudioMetadata", () => {
+  let dir: string;
+
+  before(() => {
+    dir = makeFixtureDir("metadata");
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    reads.length = 0;
+  });
+
+  test("reads ID3v2.3 text frames and the audiobook TXXX fields", async () => {
+    const tag = id3Tag([
+      id3TextFrame("TIT2", "The Hobbit"),
+      id3TextFrame("TPE1", "J. R. R. Tolkien"),
+      id3TextFrame("TALB", "The Hobbit (Unabridged)"),
+      id3TextFrame("TRCK", "3/12"),
+      id3Frame("TXXX", bytes([0], "SERIES", [0], "Middle-earth")),
+      id3Frame("TXXX", bytes([0], "SERIES-PART", [0], "0.5")),
+    ]);
+    const file = writeFixture(dir, "hobbit.mp3", tag, new Array(64).fill(0));
+
+    assert.deepEqual(await readAudioMetadata(file, "hobbit.mp3"), {
+      title: "The Hobbit",
+      artist: "J. R. R. Tolkien",
+      album: "The Hobbit (Unabridged)",
+      trackNumber: 3,
+      series: "Middle-earth",
+      seriesPart: "0.5",
+    });
+  });
+
+  test("reads UTF-8 text from ID3v2.4 frames", async () => {
+    const tag = id3Tag([id3TextFrame("TIT2", "Ναυσικά", 4), id3TextFrame("TPE1", "Brontë", 4)], 4);
+    const file = writeFixture(dir, "utf8.mp3", tag);
+
+    assert.deepEqual(await readAudioMetadata(file, "utf8.mp3"), { title: "Ναυσικά", artist: "Brontë" });
+  });
+
+  test("fills gaps in the ID3v2 tag from ID3v1", async () => {
+    const file = writeFixture(
+      dir,
+      "both.mp3",
+      id3Tag([id3TextFrame("TIT2", "Dracula")]),
+      new Array(64).fill(0),
+      id3v1Tag("Dracula (old)", "Bram Stoker", "Dracula", 7)
+    );
+
+    assert.deepEqual(await readAudioMetadata(file, "both.mp3"), {
+      title: "Dracula",
+      artist: "Bram Stoker",
+      album: "Dracula",
+      trackNumber: 7,
+    });
+  });
+
+  test("skips cover art without reading it", async () => {
+    const tag = id3Tag([
+      id3Frame("APIC", bytes([0], "image/jpeg", [0, 3, 0], new Array(COVER_BYTES).fill(0xaa))),
+      id3TextFrame("TIT2", "Emma"),
+    ]);
+    const file = writeFixture(dir, "cover.mp3", tag);
+
+    assert.deepEqual(await readAudioMetadata(file, "cover.mp3"), { title: "Emma" });
+    assert.ok(totalRead() < COVER_BYTES, `read ${totalRead()} bytes`);
+  });
+
+  test("treats a tag that runs past the end of the file as no tag", async () => {
+    const frames = bytes(id3TextFrame("TIT2", "Cut Off"));
+    const file = writeFixture(dir, "truncated.mp3", "ID3", [3, 0, 0], syncsafe(4096), frames);
+
+    assert.deepEqual(await readAudioMetadata(file, "truncated.mp3"), {});
+  });
+
+  test("reads iTunes-style MP4 items and skips the cover", async () => {
+    const ilst = mp4Box(
+      "ilst",
+      mp4TextItem("©nam", "Persuasion"),
+      mp4TextItem("©ART", "Jane Austen"),
+      mp4TextItem("©grp", "Austen Novels"),
+      mp4Box("trkn", mp4Box("data", uint32BE(0), uint32BE(0), [0, 0, 0, 4, 0, 6, 0, 0])),
+      mp4Box("covr", mp4Box("data", uint32BE(13), uint32BE(0), new Array(COVER_BYTES).fill(0xaa)))
+    );
+    const meta = mp4Box("meta", uint32BE(0), mp4Box("hdlr", new Array(25).fill(0)), ilst);
+    const file = writeFixture(dir, "book.m4b", mp4Box("ftyp", "M4B "), mp4Box("moov", mp4Box("udta", meta)));
+
+    assert.deepEqual(await readAudioMetadata(file, "book.m4b"), {
+      title: "Persuasion",
+      artist: "Jane Austen",
+      grouping: "Austen Novels",
+      trackNumber: 4,
+    });
+    assert.ok(totalRead() < COVER_BYTES, `read ${totalRead()} bytes`);
+    assert.ok(largestRead() <= 256 * 1024, `largest read was ${largestRead()} bytes`);
+  });
+
+  test("reads QuickTime-style meta boxes without a version field", async () => {
+    const meta = mp4Box("meta", mp4Box("hdlr", new Array(25).fill(0)), mp4Box("ilst", mp4TextItem("©alb", "Sense")));
+    const file = writeFixture(dir, "quicktime.m4a", mp4Box("moov", mp4Box("udta", meta)));
+
+    assert.deepEqual(await readAudioMetadata(file, "quicktime.m4a"), { album: "Sense" });
+  });
+
+  test("reads FLAC Vorbis comments", async () => {
+    const comments = vorbisComments("TITLE=Middlemarch", "artist=George Eliot", "TRACKNUMBER=2", "SERIES=Eliot");
+    const file = writeFixture(dir, "book.flac", "fLaC", [0x84], [0, 0, comments.length], comments);
+
+    const metadata = await readAudioMetadata(file, "book.flac");
+    assert.equal(metadata.title, "Middlemarch");
+    assert.equal(metadata.artist, "George Eliot");
+    assert.equal(metadata.trackNumber, 2);
+    assert.equal(metadata.series, "Eliot");
+  });
+
+  test("reads Opus comments from the second Ogg packet", async () => {
+    const head = bytes("OpusHead", [1, 2], [0, 0], uint32LE(48000), [0, 0, 0]);
+    const tags = bytes("OpusTags", vorbisComments("TITLE=Villette", "ALBUM=Villette"));
+    const file = writeFixture(dir, "book.ogg", oggPage(0, head), oggPage(0, tags));
+
+    const metadata = await readAudioMetadata(file, "book.ogg");
+    assert.equal(metadata.title, "Villette");
+    assert.equal(metadata.album, "Villette");
+  });
+
+  test("returns nothing for an empty or unrecognised file", async () => {
+    assert.deepEqual(await readAudioMetadata(writeFixture(dir, "empty.mp3"), "empty.mp3"), {});
+    assert.deepEqual(await readAudioMetadata(writeFixture(dir, "noise.mp3", new Array(512).fill(7)), "noise.mp3"), {});
+  });
+});
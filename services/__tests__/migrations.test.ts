@@ -0,0 +1,179 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type * as SQLite from "expo-sqlite";
+import { runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION } from "../migrations";
+
+type Params = (string | number | null)[];
+
+// The parts of expo-sqlite's async API the migrations use, over a file database
+function openDatabase(file: string) {
+  const db = new Database(file);
+  const adapter = {
+    execAsync: async (sql: string) => {
+      db.exec(sql);
+    },
+    runAsync: async (sql: string, params: Params = []) => {
+      const result = db.prepare(sql).run(...params);
+      return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+    },
+    getAllAsync: async (sql: string, params: Params = []) => db.prepare(sql).all(...params),
+    getFirstAsync: async (sql: string, params: Params = []) => db.prepare(sql).get(...params) ?? null,
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      db.exec("BEGIN");
+      try {
+        await task();
+        db.exec("COMMIT");
+      } catch (e) {
+        db.exec("ROLLBACK");
+        throw e;
+      }
+    },
+  };
+  return { db, database: adapter as unknown as SQLite.SQLiteDatabase };
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+function tableNames(db: Database.Database): string[] {
+  return (
+    db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as { name: string }[]
+  ).map((t) => t.name);
+}
+
+// An install from before versioning: the base tables plus some of the later columns
+function createPreVersioningDatabase(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE books (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      author TEXT,
+      cover_path TEXT,
+      folder_path TEXT NOT NULL UNIQUE,
+      total_duration_ms INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      playback_speed REAL
+    );
+    CREATE TABLE chapters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      file_path TEXT NOT NULL,
+      duration_ms INTEGER DEFAULT 0,
+      position INTEGER NOT NULL,
+      start_ms INTEGER NOT NULL DEFAULT 0,
+      end_ms INTEGER,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+      UNIQUE (file_path, start_ms)
+    );
+    CREATE TABLE progress (
+      book_id INTEGER PRIMARY KEY,
+      current_chapter_id INTEGER,
+      position_ms INTEGER DEFAULT 0,
+      last_played_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+      FOREIGN KEY (current_chapter_id) REFERENCES chapters(id) ON DELETE SET NULL
+    );
+    CREATE TABLE book_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER,
+      title TEXT NOT NULL,
+      author TEXT,
+      cover_path TEXT,
+      total_duration_ms INTEGER DEFAULT 0,
+      started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      completed_at TEXT,
+      is_in_library INTEGER DEFAULT 1
+    );
+
+    INSERT INTO books (id, title, folder_path, playback_speed) VALUES (1, 'Dune', '/books/Dune', 1.5);
+    INSERT INTO chapters (id, book_id, title, file_path, position) VALUES (10, 1, 'Part One', '/books/Dune/01.mp3', 0);
+    INSERT INTO progress (book_id, current_chapter_id, position_ms) VALUES (1, 10, 5000);
+  `);
+}
+
+describe("runMigrations", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+    file = path.join(dir, "audiobooks.db");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("brings a new database from version 0 to the latest version", async () => {
+    const { db, database } = openDatabase(file);
+    assert.equal(await getSchemaVersion(database), 0);
+
+    await runMigrations(database);
+    db.close();
+
+    // Reopen to read what was written to disk
+    const reopened = openDatabase(file);
+    assert.equal(await getSchemaVersion(reopened.database), LATEST_SCHEMA_VERSION);
+    const tables = tableNames(reopened.db);
+    for (const table of ["books", "chapters", "progress", "bookmarks", "settings", "library_search"]) {
+      assert.ok(tables.includes(table), `missing table ${table}`);
+    }
+    assert.ok(columnNames(reopened.db, "books").includes("trim_silence"));
+    assert.ok(columnNames(reopened.db, "chapters").includes("missing"));
+
+    // Running again is a no-op
+    await runMigrations(reopened.database);
+    assert.equal(await getSchemaVersion(reopened.database), LATEST_SCHEMA_VERSION);
+    reopened.db.close();
+  });
+
+  test("upgrades a database from before versioning that already has some changes", async () => {
+    const { db, database } = openDatabase(file);
+    createPreVersioningDatabase(db);
+
+    await runMigrations(database);
+
+    assert.equal(await getSchemaVersion(database), LATEST_SCHEMA_VERSION);
+    assert.deepEqual(db.prepare(`SELECT id, playback_speed FROM books`).all(), [{ id: 1, playback_speed: 1.5 }]);
+    // The chapters table already allowed shared files, so it kept its rows and ids
+    assert.deepEqual(db.prepare(`SELECT id, start_ms, missing FROM chapters`).all(), [
+      { id: 10, start_ms: 0, missing: 0 },
+    ]);
+    assert.deepEqual(db.prepare(`SELECT current_chapter_id FROM progress`).get(), { current_chapter_id: 10 });
+    // Migration 1 backfilled the history row
+    assert.deepEqual(db.prepare(`SELECT book_id, title FROM book_history`).all(), [{ book_id: 1, title: "Dune" }]);
+    assert.ok(columnNames(db, "books").includes("series_name"));
+    // Books from before series support get their series looked up on the next rescan
+    assert.equal(db.prepare(`SELECT series_backfill FROM books WHERE id = 1`).pluck().get(), 1);
+    db.close();
+  });
+
+  test("leaves the database untouched when a step fails", async () => {
+    const { db, database } = openDatabase(file);
+    createPreVersioningDatabase(db);
+    // The chapters rebuild is needed and its scratch table is in the way
+    db.exec(`
+      ALTER TABLE chapters RENAME TO chapters_old;
+      CREATE TABLE chapters (id INTEGER PRIMARY KEY, book_id INTEGER, title TEXT, file_path TEXT, position INTEGER);
+      INSERT INTO chapters SELECT id, book_id, title, file_path, position FROM chapters_old;
+      DROP TABLE chapters_old;
+      CREATE TABLE chapters_new (id INTEGER);
+    `);
+    const tablesBefore = tableNames(db);
+    const booksColumnsBefore = columnNames(db, "books");
+
+    await assert.rejects(runMigrations(database), /Migration 4 \(Let embedded chapters share a file\) failed/);
+
+    assert.equal(await getSchemaVersion(database), 0);
+    assert.deepEqual(tableNames(db), tablesBefore);
+    assert.deepEqual(columnNames(db, "books"), booksColumnsBefore);
+    assert.equal(db.prepare(`SELECT COUNT(*) as count FROM book_history`).pluck().get(), 0);
+    db.close();
+  });
+});
@@ -0,0 +1,104 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import {
+  listBoxes,
+  findChildBox,
+  getBoxContent,
+  parseTimescaleAndDuration,
+  findBoxInFile,
+  readBoxInFile,
+  readMp4DurationMs,
+} from "../mp4";
+import { bytes, uint32BE, makeFixtureDir, writeFixture, mp4Box, mp4Mvhd } from "./support/fixtures";
+
+describe("in-memory boxes", () => {
+  test("lists sibling boxes with absolute positions", () => {
+    const data = bytes(mp4Box("ftyp", "M4A "), mp4Box("free"), mp4Box("moov", mp4Box("mvhd")));
+
+    assert.deepEqual(listBoxes(data, 0, data.length), [
+      { type: "ftyp", start: 0, size: 12, headerSize: 8 },
+      { type: "free", start: 12, size: 8, headerSize: 8 },
+      { type: "moov", start: 20, size: 16, headerSize: 8 },
+    ]);
+  });
+
+  test("reads 64-bit sizes and boxes that run to the end of their parent", () => {
+    const large = bytes(uint32BE(1), "mdat", uint32BE(0), uint32BE(20), "abcd");
+    const open = bytes(uint32BE(0), "free", "rest");
+    const data = bytes(large, open);
+
+    assert.deepEqual(listBoxes(data, 0, data.length), [
+      { type: "mdat", start: 0, size: 20, headerSize: 16 },
+      { type: "free", start: 20, size: 12, headerSize: 8 },
+    ]);
+  });
+
+  test("stops at a box that claims more than its parent holds", () => {
+    const data = bytes(mp4Box("ftyp", "M4A "), uint32BE(4096), "moov", "short");
+
+    assert.deepEqual(
+      listBoxes(data, 0, data.length).map((b) => b.type),
+      ["ftyp"]
+    );
+  });
+
+  test("follows a path through a buffer that starts partway into the file", () => {
+    const udta = mp4Box("udta", mp4Box("chpl", "chapters"));
+    const moov = mp4Box("moov", mp4Mvhd(1000, 5000), udta);
+    const dataOffset = 100;
+    const [box] = listBoxes(moov, dataOffset, dataOffset + moov.length, dataOffset);
+
+    const chpl = findChildBox(moov, box, ["udta", "chpl"], dataOffset);
+    assert.ok(chpl);
+    assert.equal(Buffer.from(getBoxContent(moov, chpl, dataOffset)).toString("latin1"), "chapters");
+    assert.equal(findChildBox(moov, box, ["udta", "meta"], dataOffset), null);
+  });
+
+  test("parses version 0 and version 1 timing", () => {
+    const v0 = bytes(uint32BE(0), uint32BE(0), uint32BE(0), uint32BE(44100), uint32BE(441000));
+    const v1 = bytes([1, 0, 0, 0], new Array(16).fill(0), uint32BE(1000), uint32BE(1), uint32BE(0));
+
+    assert.deepEqual(parseTimescaleAndDuration(v0), { timescale: 44100, duration: 441000 });
+    assert.deepEqual(parseTimescaleAndDuration(v1), { timescale: 1000, duration: 0x100000000 });
+    assert.equal(parseTimescaleAndDuration(v0.subarray(0, 12)), null);
+  });
+});
+
+describe("boxes in files", () => {
+  let dir: string;
+
+  before(() => {
+    dir = makeFixtureDir("mp4");
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads the presentation length from moov/mvhd", async () => {
+    const file = writeFixture(dir, "book.m4b", mp4Box("ftyp", "M4B "), mp4Box("moov", mp4Mvhd(600, 90000)));
+    assert.equal(await readMp4DurationMs(file, fs.statSync(file).size), 150000);
+  });
+
+  test("has no length without a movie header", async () => {
+    const file = writeFixture(dir, "empty.m4b", mp4Box("ftyp", "M4B "), mp4Box("moov"));
+    assert.equal(await readMp4DurationMs(file, fs.statSync(file).size), null);
+  });
+
+  test("ignores a moov box cut off by the end of the file", async () => {
+    const moov = mp4Box("moov", mp4Mvhd(600, 90000));
+    const file = writeFixture(dir, "truncated.m4b", mp4Box("ftyp", "M4B "), moov.subarray(0, moov.length - 4));
+
+    const size = fs.statSync(file).size;
+    assert.equal(await findBoxInFile(file, size, ["moov"]), null);
+    assert.equal(await readMp4DurationMs(file, size), null);
+  });
+
+  test("reads a box only when the file holds all of it", async () => {
+    const file = writeFixture(dir, "short.m4b", mp4Box("ftyp", "M4B "));
+
+    assert.equal((await readBoxInFile(file, { type: "ftyp", start: 0, size: 12, headerSize: 8 }))?.length, 12);
+    assert.equal(await readBoxInFile(file, { type: "ftyp", start: 0, size: 64, headerSize: 8 }), null);
+  });
+});
@@ -0,0 +1,57 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { computeStreaks } from "../streaks";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// One hour of listening on each date
+function listenedOn(...dates: string[]): { date: string; duration_ms: number }[] {
+  return dates.map((date) => ({ date, duration_ms: HOUR_MS }));
+}
+
+describe("computeStreaks", () => {
+  test("has no streak without any listening", () => {
+    assert.deepEqual(computeStreaks([], "2026-03-10", 30, 1), { current: 0, longest: 0 });
+  });
+
+  test("counts a streak that ends today", () => {
+    const days = listenedOn("2026-03-08", "2026-03-09", "2026-03-10");
+    assert.deepEqual(computeStreaks(days, "2026-03-10", 30, 0), { current: 3, longest: 3 });
+  });
+
+  test("keeps a streak that ended yesterday current until today is over", () => {
+    const days = listenedOn("2026-03-08", "2026-03-09");
+    assert.deepEqual(computeStreaks(days, "2026-03-10", 30, 0), { current: 2, longest: 2 });
+  });
+
+  test("ends a streak once a whole day has been missed", () => {
+    const days = listenedOn("2026-03-07", "2026-03-08");
+    assert.deepEqual(computeStreaks(days, "2026-03-10", 30, 0), { current: 0, longest: 2 });
+  });
+
+  test("bridges gaps covered by grace days without counting them", () => {
+    const days = listenedOn("2026-03-01", "2026-03-02", "2026-03-05", "2026-03-06");
+    assert.deepEqual(computeStreaks(days, "2026-03-06", 30, 2), { current: 4, longest: 4 });
+  });
+
+  test("breaks on a gap one day longer than the grace days allow", () => {
+    const days = listenedOn("2026-03-01", "2026-03-02", "2026-03-06", "2026-03-07");
+    assert.deepEqual(computeStreaks(days, "2026-03-07", 30, 2), { current: 2, longest: 2 });
+  });
+
+  test("lets grace days keep the current streak going up to today", () => {
+    const days = listenedOn("2026-03-05", "2026-03-06");
+    assert.deepEqual(computeStreaks(days, "2026-03-09", 30, 2), { current: 2, longest: 2 });
+    assert.deepEqual(computeStreaks(days, "2026-03-10", 30, 2), { current: 0, longest: 2 });
+  });
+
+  test("only counts days that met the goal", () => {
+    const days = [
+      ...listenedOn("2026-03-08", "2026-03-10"),
+      { date: "2026-03-09", duration_ms: 10 * 60 * 1000 },
+    ];
+    assert.deepEqual(computeStreaks(days, "2026-03-10", 30, 0), { current: 1, longest: 1 });
+    // With no goal any listening counts
+    assert.deepEqual(computeStreaks(days, "2026-03-10", 0, 0), { current: 3, longest: 3 });
+  });
+});
@@ -0,0 +1,35 @@
+import fs from "node:fs/promises";
+
+// The parts of expo-file-system/legacy that byteReader uses, over plain file paths
+
+export const EncodingType = { UTF8: "utf8", Base64: "base64" } as const;
+
+// Every ranged read, so tests can check how much of a file was loaded
+export const reads: { position: number; length: number }[] = [];
+
+export async function readAsStringAsync(
+  uri: string,
+  options: { encoding?: string; position?: number; length?: number } = {}
+): Promise<string> {
+  const file = await fs.open(uri, "r");
+  try {
+    const position = options.position ?? 0;
+    const length = options.length ?? (await file.stat()).size - position;
+    reads.push({ position, length });
+
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead).toString(options.encoding === "base64" ? "base64" : "utf8");
+  } finally {
+    await file.close();
+  }
+}
+
+export async function getInfoAsync(uri: string) {
+  try {
+    const stat = await fs.stat(uri);
+    return { exists: true, isDirectory: stat.isDirectory(), size: stat.size };
+  } catch {
+    return { exists: false, isDirectory: false };
+  }
+}
@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Builders for small audio files, assembled byte by byte
+
+type Part = Uint8Array | number[] | string;
+
+// Strings are written as Latin-1, one byte per character
+export function bytes(...parts: Part[]): Uint8Array {
+  const arrays = parts.map((part) =>
+    typeof part === "string" ? Uint8Array.from(part, (c) => c.charCodeAt(0)) : Uint8Array.from(part)
+  );
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+export function utf8(text: string): Uint8Array {
+  return new Uint8Array(Buffer.from(text, "utf8"));
+}
+
+export function uint16BE(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+export function uint32BE(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function uint16LE(value: number): number[] {
+  return uint16BE(value).reverse();
+}
+
+export function uint32LE(value: number): number[] {
+  return uint32BE(value).reverse();
+}
+
+export function syncsafe(value: number): number[] {
+  return [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+}
+
+export function makeFixtureDir(name: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `${name}-`));
+}
+
+export function writeFixture(dir: string, name: string, ...parts: Part[]): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, bytes(...parts));
+  return file;
+}
+
+// ID3v2.3 and 2.4 (v2.4 sizes are syncsafe)
+
+export function id3Frame(id: string, data: Part, version: number = 3): Uint8Array {
+  const content = bytes(data);
+  const size = version === 4 ? syncsafe(content.length) : uint32BE(content.length);
+  return bytes(id, size, [0, 0], content);
+}
+
+// Latin-1 text for v2.3, UTF-8 for v2.4
+export function id3TextFrame(id: string, text: string, version: number = 3): Uint8Array {
+  return version === 4 ? id3Frame(id, bytes([3], utf8(text)), 4) : id3Frame(id, bytes([0], text), 3);
+}
+
+export function id3Tag(frames: Uint8Array[], version: number = 3, padding: number = 16): Uint8Array {
+  const body = bytes(...frames, new Array(padding).fill(0));
+  return bytes("ID3", [version, 0, 0], syncsafe(body.length), body);
+}
+
+// MP4 boxes
+
+export function mp4Box(type: string, ...content: Part[]): Uint8Array {
+  const body = bytes(...content);
+  return bytes(uint32BE(8 + body.length), type, body);
+}
+
+// An ilst item holding a UTF-8 text value
+export function mp4TextItem(type: string, text: string): Uint8Array {
+  return mp4Box(type, mp4Box("data", uint32BE(1), uint32BE(0), utf8(text)));
+}
+
+// mvhd version 0: version/flags, created, modified, timescale, duration
+export function mp4Mvhd(timescale: number, duration: number): Uint8Array {
+  return mp4Box("mvhd", uint32BE(0), uint32BE(0), uint32BE(0), uint32BE(timescale), uint32BE(duration));
+}
+
+// MP3
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417 bytes per frame
+export function mp3Frame(content: Part = []): Uint8Array {
+  const frame = new Uint8Array(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  frame.set(bytes(content), 4);
+  return frame;
+}
+
+// Xing header after the 32 bytes of stereo side information
+export function mp3XingFrame(frameCount: number): Uint8Array {
+  return mp3Frame(bytes(new Array(32).fill(0), "Xing", uint32BE(1), uint32BE(frameCount)));
+}
+
+// Ogg
+
+// One page holding whole packets; each packet is laced into 255-byte segments
+export function oggPage(granule: number, ...packets: Uint8Array[]): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  const granuleBytes = bytes(uint32LE(granule % 0x100000000), uint32LE(Math.floor(granule / 0x100000000)));
+  // Serial number, page sequence and (unchecked) CRC follow the granule position
+  const pageInfo = bytes(uint32LE(1), uint32LE(0), uint32LE(0));
+  return bytes("OggS", [0, 0], granuleBytes, pageInfo, [lacing.length], lacing, ...packets);
+}
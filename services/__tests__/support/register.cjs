@@ -0,0 +1,12 @@
+// The parsers read files through expo-file-system, which needs React Native. Under
+// node:test it resolves to a node:fs version instead.
+const Module = require("node:module");
+const path = require("node:path");
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request === "expo-file-system/legacy") {
+    return resolveFilename.call(this, path.join(__dirname, "fileSystem.ts"), ...rest);
+  }
+  return resolveFilename.call(this, request, ...rest);
+};
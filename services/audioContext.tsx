@@ -1,10 +1,14 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from "react";
 import { Audio, AVPlaybackStatus } from "expo-av";
+import { Accelerometer } from "expo-sensors";
+import * as Haptics from "expo-haptics";
+import MediaControl, { Command, MediaControlEvent, PlaybackState } from "expo-media-control";
 import {
   Book,
   Chapter,
   BookHistory,
   getBookWithChapters,
+  getAllChaptersForBook,
   getProgress,
   updateProgress,
   updateBookDuration,
@@ -12,7 +16,50 @@ import {
   markBookHistoryCompleted,
   updateBookHistoryDuration,
   upsertListeningSession,
+  updateBookPlaybackSpeed,
+  updateBookTrimSilence,
+  addSilenceTrimmedTime,
+  getNextInSeries,
 } from "./database";
+import { loadPreferences, getPreferences, usePreferences, clampPlaybackSpeed } from "./preferences";
+import { parseDatabaseTimestamp } from "./dates";
+
+const SLEEP_TIMER_TICK_MS = 500;
+const SLEEP_TIMER_FADE_MS = 10000;
+const SHAKE_THRESHOLD_G = 1.8;
+const SHAKE_COOLDOWN_MS = 1500;
+
+// Trim silence: a stretch quieter than the threshold (RMS, about -40 dBFS) for longer
+// than a normal pause between sentences is played faster until the sound returns
+const SILENCE_THRESHOLD = 0.01;
+const SILENCE_MIN_MS = 600;
+const SILENCE_SPEEDUP = 3;
+// Samples stop arriving while paused
+const SILENCE_SAMPLE_GAP_MS = 1000;
+
+export const SLEEP_TIMER_SHAKE_EXTEND_MINUTES = 5;
+
+// How far to rewind on resume, by how long playback was paused (longest match wins)
+const SMART_REWIND_STEPS = [
+  { pausedMs: 10 * 1000, rewindMs: 3 * 1000 },
+  { pausedMs: 5 * 60 * 1000, rewindMs: 10 * 1000 },
+  { pausedMs: 60 * 60 * 1000, rewindMs: 20 * 1000 },
+  { pausedMs: 24 * 60 * 60 * 1000, rewindMs: 30 * 1000 },
+];
+
+export type SleepTimerOption =
+  | { type: "duration"; minutes: number }
+  | { type: "endOfChapter" };
+
+export interface StartPosition {
+  chapterId: number;
+  positionMs: number;
+}
+
+export interface SleepTimerState {
+  mode: "duration" | "endOfChapter";
+  remainingMs: number;
+}
 
 interface AudioState {
   book: Book | null;
@@ -23,6 +70,10 @@ interface AudioState {
   positionMs: number;
   durationMs: number;
   playbackSpeed: number;
+  sleepTimer: SleepTimerState | null;
+  trimSilence: boolean;
+  // Set when the book is finished and its series has a later volume
+  nextInSeries: Book | null;
   error: string | null;
 }
 
@@ -30,7 +81,8 @@ interface AudioContextType {
   // State
   state: AudioState;
   // Actions
-  loadBook: (bookId: number) => Promise<void>;
+  loadBook: (bookId: number, startAt?: StartPosition) => Promise<void>;
+  refreshBook: (bookId: number) => Promise<void>;
   togglePlayback: () => Promise<void>;
   play: () => Promise<void>;
   pause: () => Promise<void>;
@@ -40,6 +92,14 @@ interface AudioContextType {
   nextChapter: () => Promise<void>;
   previousChapter: () => Promise<void>;
   setPlaybackSpeed: (speed: number) => Promise<void>;
+  // Plays at a speed without saving it, while the speed slider is dragged
+  previewPlaybackSpeed: (speed: number) => Promise<void>;
+  resetPlaybackSpeed: () => Promise<void>;
+  setTrimSilence: (enabled: boolean) => Promise<void>;
+  startSleepTimer: (option: SleepTimerOption) => void;
+  extendSleepTimer: (minutes: number) => void;
+  cancelSleepTimer: () => void;
+  dismissNextInSeries: () => void;
   stopAndUnload: () => Promise<void>;
 }
 
@@ -52,19 +112,98 @@ const initialState: AudioState = {
   positionMs: 0,
   durationMs: 0,
   playbackSpeed: 1.0,
+  sleepTimer: null,
+  trimSilence: false,
+  nextInSeries: null,
   error: null,
 };
 
 const AudioContext = createContext<AudioContextType | null>(null);
 
+function getSmartRewindMs(pausedMs: number): number {
+  let rewindMs = 0;
+  for (const step of SMART_REWIND_STEPS) {
+    if (pausedMs >= step.pausedMs) rewindMs = step.rewindMs;
+  }
+  return rewindMs;
+}
+
+// Speed for books that have never had their own speed set
+async function getDefaultPlaybackSpeed(): Promise<number> {
+  try {
+    const preferences = await loadPreferences();
+    return clampPlaybackSpeed(preferences.defaultPlaybackSpeed, preferences);
+  } catch (e) {
+    console.warn("Error loading default playback speed:", e);
+  }
+  return 1.0;
+}
+
+// Chapters read from markers inside a single file share that file and play a slice of it
+function isEmbeddedChapter(chapter: Chapter): boolean {
+  return chapter.start_ms > 0 || chapter.end_ms !== null;
+}
+
+// Loudness of the first channel, or null when the sample carries no frames
+function getSampleLevel(sample: Audio.AudioSample): number | null {
+  const frames = sample.channels[0]?.frames ?? [];
+  if (frames.length === 0) return null;
+  let sum = 0;
+  for (const frame of frames) sum += frame * frame;
+  return Math.sqrt(sum / frames.length);
+}
+
+// Zero when the chapter's file hasn't been probed yet
+export function getChapterLengthMs(chapter: Chapter): number {
+  return chapter.end_ms !== null ? chapter.end_ms - chapter.start_ms : chapter.duration_ms;
+}
+
+// Where to resume when the saved chapter's file is missing: the next chapter that is
+// still there, or the last one before it when the missing chapter was at the end
+function findNearestAvailableChapter(available: Chapter[], missingPosition: number): number {
+  const next = available.findIndex((c) => c.position > missingPosition);
+  return next >= 0 ? next : available.length - 1;
+}
+
+// Index of the embedded chapter that contains a position in their shared file
+function findChapterAtFilePosition(chapters: Chapter[], currentIndex: number, filePositionMs: number): number {
+  const filePath = chapters[currentIndex].file_path;
+  let found = -1;
+  chapters.forEach((chapter, index) => {
+    if (chapter.file_path !== filePath || chapter.start_ms > filePositionMs) return;
+    if (found < 0 || chapter.start_ms > chapters[found].start_ms) {
+      found = index;
+    }
+  });
+  return found >= 0 ? found : currentIndex;
+}
+
 export function AudioProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<AudioState>(initialState);
+  const preferences = usePreferences();
   const soundRef = useRef<Audio.Sound | null>(null);
-  const chapterDurationsRef = useRef<Map<number, number>>(new Map());
+  // Audio file durations, keyed by file path
+  const fileDurationsRef = useRef<Map<string, number>>(new Map());
+  const loadedFilePathRef = useRef<string | null>(null);
   const isTransitioningRef = useRef(false);
   const bookHistoryRef = useRef<BookHistory | null>(null);
   const accumulatedListeningMsRef = useRef(0);
   const lastProgressTimestampRef = useRef<number | null>(null);
+  // Sleep timer: absolute end time for duration mode, null for end-of-chapter mode
+  const sleepTimerModeRef = useRef<SleepTimerState["mode"] | null>(null);
+  const sleepTimerEndsAtRef = useRef<number | null>(null);
+  const isFadingRef = useRef(false);
+  // When playback was last paused, for smart rewind on resume
+  const pausedAtRef = useRef<number | null>(null);
+  const wasPlayingRef = useRef(false);
+  const lastSavedProgressRef = useRef<{ chapterId: number; positionMs: number } | null>(null);
+  // Trim silence: set synchronously so a chapter loaded right after loadBook sees it
+  const trimSilenceRef = useRef(false);
+  const silenceRef = useRef<{ quietSince: number | null; trimmingSince: number | null; lastSampleAt: number }>({
+    quietSince: null,
+    trimmingSince: null,
+    lastSampleAt: 0,
+  });
 
   // Refs for callbacks to avoid stale closures
   const stateRef = useRef(state);
@@ -89,6 +228,7 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   // Progress saving interval + listening time tracking
+  const saveIntervalMs = preferences.progressSaveIntervalSeconds * 1000;
   useEffect(() => {
     const saveProgress = async () => {
       if (isTransitioningRef.current) return;
@@ -98,10 +238,10 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       const now = Date.now();
 
       // Track listening time when playing
-      if (isPlaying && lastProgressTimestampRef.current !== null) {
+      if (isPlaying && lastProgressTimestampRef.current !== null && getPreferences().trackListeningTime) {
         const elapsed = now - lastProgressTimestampRef.current;
-        // Clamp to 10s max to handle backgrounding/sleep
-        const clamped = Math.min(elapsed, 10000);
+        // Clamp to two intervals (10s at least) to handle backgrounding/sleep
+        const clamped = Math.min(elapsed, Math.max(10000, saveIntervalMs * 2));
         accumulatedListeningMsRef.current += clamped;
       }
       lastProgressTimestampRef.current = isPlaying ? now : null;
@@ -117,21 +257,121 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         }
       }
 
-      // Only save if we have a valid chapter and position
+      // Only save if we have a valid chapter and position. While paused, an unchanged
+      // position isn't saved again so last_played_at keeps the time playback stopped.
       const chapter = chapters[currentChapterIndex];
-      if (chapter && (isPlaying || positionMs > 0)) {
+      const lastSaved = lastSavedProgressRef.current;
+      const isUnchanged = lastSaved?.chapterId === chapter?.id && lastSaved?.positionMs === positionMs;
+      if (chapter && (isPlaying || (positionMs > 0 && !isUnchanged))) {
         try {
           await updateProgress(book.id, chapter.id, positionMs);
+          lastSavedProgressRef.current = { chapterId: chapter.id, positionMs };
         } catch (e) {
           console.warn("Error saving progress:", e);
         }
       }
     };
 
-    const interval = setInterval(saveProgress, 5000);
+    const interval = setInterval(saveProgress, saveIntervalMs);
     return () => clearInterval(interval);
+  }, [saveIntervalMs]);
+
+  // Restore full volume after a sleep timer fade-out was interrupted
+  const restoreVolume = useCallback(() => {
+    if (!isFadingRef.current) return;
+    isFadingRef.current = false;
+    soundRef.current?.setVolumeAsync(1.0).catch((e) =>
+      console.warn("Error restoring volume:", e)
+    );
+  }, []);
+
+  const clearSleepTimer = useCallback(() => {
+    sleepTimerModeRef.current = null;
+    sleepTimerEndsAtRef.current = null;
+    setState(prev => ({ ...prev, sleepTimer: null }));
   }, []);
 
+  // Sleep timer fired: pause, rewind the part slept through and save progress
+  const expireSleepTimer = useCallback(async (chapterFinished: boolean = false) => {
+    clearSleepTimer();
+
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      const status = await sound.getStatusAsync();
+      if (!status.isLoaded) return;
+
+      // Nothing to stop if the user already paused (a finished chapter is never "playing")
+      if (!status.isPlaying && !chapterFinished) {
+        restoreVolume();
+        return;
+      }
+
+      await sound.pauseAsync();
+      isFadingRef.current = false;
+      await sound.setVolumeAsync(1.0);
+
+      const rewindSeconds = (await loadPreferences()).sleepTimerRewindSeconds;
+
+      // Positions are relative to the chapter, which may be a slice of a longer file
+      const { book, chapters, currentChapterIndex } = stateRef.current;
+      const chapter = chapters[currentChapterIndex];
+      const startMs = chapter?.start_ms ?? 0;
+      const endMs = chapter?.end_ms ?? status.positionMillis;
+      const positionInChapter = Math.min(status.positionMillis, endMs) - startMs;
+
+      const newPosition = Math.max(0, positionInChapter - rewindSeconds * 1000);
+      await sound.setPositionAsync(startMs + newPosition);
+      setState(prev => ({ ...prev, positionMs: newPosition, isPlaying: false }));
+
+      if (book && chapter) {
+        await updateProgress(book.id, chapter.id, newPosition);
+      }
+    } catch (e) {
+      console.error("Error stopping playback for sleep timer:", e);
+    }
+  }, [clearSleepTimer, restoreVolume]);
+
+  // Sleep timer countdown and fade-out
+  useEffect(() => {
+    const tick = async () => {
+      const mode = sleepTimerModeRef.current;
+      if (!mode) return;
+
+      const { positionMs, durationMs, playbackSpeed, isPlaying } = stateRef.current;
+      let remainingMs: number;
+      if (mode === "duration") {
+        remainingMs = Math.max(0, (sleepTimerEndsAtRef.current ?? 0) - Date.now());
+      } else {
+        // Chapter length is unknown until the audio has loaded
+        if (durationMs <= 0) return;
+        remainingMs = Math.max(0, (durationMs - positionMs) / playbackSpeed);
+      }
+
+      setState(prev => (prev.sleepTimer ? { ...prev, sleepTimer: { mode, remainingMs } } : prev));
+
+      // End-of-chapter timers fire from the didJustFinish status update instead
+      if (mode === "duration" && remainingMs <= 0) {
+        await expireSleepTimer();
+        return;
+      }
+
+      const sound = soundRef.current;
+      if (sound && isPlaying && remainingMs <= SLEEP_TIMER_FADE_MS) {
+        isFadingRef.current = true;
+        try {
+          await sound.setVolumeAsync(remainingMs / SLEEP_TIMER_FADE_MS);
+        } catch (e) {
+          console.warn("Error fading volume:", e);
+        }
+      }
+    };
+
+    const interval = setInterval(tick, SLEEP_TIMER_TICK_MS);
+    return () => clearInterval(interval);
+  }, [expireSleepTimer]);
+
   // Playback status update handler
   const onPlaybackStatusUpdate = useCallback((status: AVPlaybackStatus) => {
     if (!status.isLoaded) {
@@ -146,24 +386,53 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     if (isTransitioningRef.current) return;
 
     const currentState = stateRef.current;
+    const { chapters, currentChapterIndex } = currentState;
+    const fileDurationMs = status.durationMillis || 0;
+
+    // Playing through an embedded chapter's end moves on to the next one in the same file
+    let chapterIndex = currentChapterIndex;
+    const currentChapter = chapters[currentChapterIndex];
+    if (currentChapter && isEmbeddedChapter(currentChapter)) {
+      chapterIndex = findChapterAtFilePosition(chapters, currentChapterIndex, status.positionMillis);
+      if (chapterIndex > currentChapterIndex && sleepTimerModeRef.current === "endOfChapter") {
+        // Sleep timer set to the end of this chapter — stop instead of advancing
+        chapterIndex = currentChapterIndex;
+        setTimeout(() => {
+          expireSleepTimer(true);
+        }, 0);
+      }
+    }
+
+    const chapter = chapters[chapterIndex];
+    const startMs = chapter?.start_ms ?? 0;
+    const endMs = chapter?.end_ms ?? fileDurationMs;
 
     setState(prev => ({
       ...prev,
-      positionMs: status.positionMillis,
-      durationMs: status.durationMillis || 0,
+      currentChapterIndex: chapterIndex,
+      positionMs: Math.max(0, status.positionMillis - startMs),
+      durationMs: Math.max(0, endMs - startMs),
       isPlaying: status.isPlaying,
     }));
 
-    // Track chapter duration
-    if (status.durationMillis && status.durationMillis > 0 && currentState.chapters[currentState.currentChapterIndex]) {
-      const chapterId = currentState.chapters[currentState.currentChapterIndex].id;
-      if (!chapterDurationsRef.current.has(chapterId)) {
-        chapterDurationsRef.current.set(chapterId, status.durationMillis);
+    // Remember when playback stopped for smart rewind. Finishing a chapter isn't a pause.
+    if (status.isPlaying) {
+      pausedAtRef.current = null;
+    } else if (wasPlayingRef.current && !status.didJustFinish) {
+      pausedAtRef.current = Date.now();
+    }
+    wasPlayingRef.current = status.isPlaying;
+
+    // Track file duration
+    if (fileDurationMs > 0 && chapter) {
+      if (!fileDurationsRef.current.has(chapter.file_path)) {
+        fileDurationsRef.current.set(chapter.file_path, fileDurationMs);
 
-        // Update database when all chapter durations are known
-        if (currentState.book && chapterDurationsRef.current.size === currentState.chapters.length) {
+        // Update database when all file durations are known
+        const fileCount = new Set(chapters.map(c => c.file_path)).size;
+        if (currentState.book && fileDurationsRef.current.size === fileCount) {
           let totalDuration = 0;
-          chapterDurationsRef.current.forEach((duration) => {
+          fileDurationsRef.current.forEach((duration) => {
             totalDuration += duration;
           });
           updateBookDuration(currentState.book.id, totalDuration);
@@ -179,21 +448,102 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
 
     // Auto-advance to next chapter or mark complete
     if (status.didJustFinish && !status.isLooping) {
-      const { chapters, currentChapterIndex } = currentState;
-      if (currentChapterIndex < chapters.length - 1) {
-        // Use setTimeout to avoid state update during render
-        setTimeout(() => {
-          goToChapter(currentChapterIndex + 1, 0);
-        }, 0);
-      } else if (bookHistoryRef.current) {
+      const isLastChapter = chapterIndex >= chapters.length - 1;
+      if (isLastChapter && bookHistoryRef.current) {
         // Last chapter finished — mark book as completed
         markBookHistoryCompleted(bookHistoryRef.current.id).catch((e) =>
           console.warn("Error marking book completed:", e)
         );
       }
+      if (isLastChapter && currentState.book) {
+        const finishedBookId = currentState.book.id;
+        getNextInSeries(finishedBookId)
+          .then((next) => {
+            if (next) {
+              setState(prev => (prev.book?.id === finishedBookId ? { ...prev, nextInSeries: next } : prev));
+            }
+          })
+          .catch((e) => console.warn("Error finding next book in series:", e));
+      }
+      if (sleepTimerModeRef.current === "endOfChapter") {
+        // Sleep timer set to the end of this chapter — stop instead of advancing
+        setTimeout(() => {
+          expireSleepTimer(true);
+        }, 0);
+      } else if (!isLastChapter) {
+        // Use setTimeout to avoid state update during render
+        setTimeout(() => {
+          goToChapter(chapterIndex + 1, 0);
+        }, 0);
+      }
+    }
+  }, [expireSleepTimer]);
+
+  // Back to the normal rate at the end of a silent gap, crediting the time saved
+  const endSilenceTrim = useCallback((endedAt: number) => {
+    const silence = silenceRef.current;
+    const trimmingSince = silence.trimmingSince;
+    silence.quietSince = null;
+    silence.trimmingSince = null;
+    if (trimmingSince === null) return;
+
+    soundRef.current
+      ?.setRateAsync(stateRef.current.playbackSpeed, true)
+      .catch((e) => console.warn("Error restoring playback rate:", e));
+
+    // Each second at the faster rate covered SILENCE_SPEEDUP seconds of normal playback
+    const savedMs = Math.round((endedAt - trimmingSince) * (SILENCE_SPEEDUP - 1));
+    const history = bookHistoryRef.current;
+    if (savedMs > 0 && history) {
+      addSilenceTrimmedTime(history.id, savedMs).catch((e) =>
+        console.warn("Error saving trimmed silence:", e)
+      );
     }
   }, []);
 
+  const onAudioSample = useCallback((sample: Audio.AudioSample) => {
+    const silence = silenceRef.current;
+    const now = Date.now();
+
+    // Don't count a pause as trimmed time
+    if (now - silence.lastSampleAt > SILENCE_SAMPLE_GAP_MS) {
+      if (silence.trimmingSince !== null) {
+        endSilenceTrim(silence.lastSampleAt);
+      }
+      silence.quietSince = null;
+    }
+    silence.lastSampleAt = now;
+
+    const level = getSampleLevel(sample);
+    if (level === null) return;
+
+    if (level >= SILENCE_THRESHOLD) {
+      if (silence.trimmingSince !== null) {
+        endSilenceTrim(now);
+      }
+      silence.quietSince = null;
+      return;
+    }
+
+    if (silence.quietSince === null) {
+      silence.quietSince = now;
+    } else if (silence.trimmingSince === null && now - silence.quietSince >= SILENCE_MIN_MS) {
+      silence.trimmingSince = now;
+      soundRef.current
+        ?.setRateAsync(stateRef.current.playbackSpeed * SILENCE_SPEEDUP, true)
+        .catch((e) => console.warn("Error speeding up silence:", e));
+    }
+  }, [endSilenceTrim]);
+
+  // Sample callbacks cost a bridge call per buffer, so they're only set when trimming
+  const setSampleListener = useCallback((sound: Audio.Sound, enabled: boolean) => {
+    try {
+      sound.setOnAudioSampleReceived(enabled ? onAudioSample : null);
+    } catch (e) {
+      console.warn("Error setting audio sample listener:", e);
+    }
+  }, [onAudioSample]);
+
   // Load audio for current chapter
   const loadChapterAudio = useCallback(async (
     chapter: Chapter,
@@ -201,14 +551,29 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     speed: number,
     shouldAutoPlay: boolean
   ) => {
+    // Embedded chapters of the already loaded file only need a seek
+    if (soundRef.current && loadedFilePathRef.current === chapter.file_path) {
+      try {
+        await soundRef.current.setPositionAsync(chapter.start_ms + initialPosition);
+        if (shouldAutoPlay) {
+          await soundRef.current.playAsync();
+        }
+      } catch (e) {
+        console.error("Error seeking to chapter:", e);
+      }
+      return;
+    }
+
     // Unload previous sound
     if (soundRef.current) {
+      endSilenceTrim(Date.now());
       try {
         await soundRef.current.unloadAsync();
       } catch (e) {
         console.warn("Error unloading previous audio:", e);
       }
       soundRef.current = null;
+      loadedFilePathRef.current = null;
     }
 
     setState(prev => ({ ...prev, isLoading: true, error: null }));
@@ -220,7 +585,7 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         { uri: chapter.file_path },
         {
           shouldPlay: shouldAutoPlay,
-          positionMillis: initialPosition,
+          positionMillis: chapter.start_ms + initialPosition,
           rate: speed,
           shouldCorrectPitch: true,
           progressUpdateIntervalMillis: 500,
@@ -229,6 +594,10 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       );
 
       soundRef.current = newSound;
+      loadedFilePathRef.current = chapter.file_path;
+      if (trimSilenceRef.current) {
+        setSampleListener(newSound, true);
+      }
       setState(prev => ({ ...prev, isLoading: false }));
     } catch (e) {
       console.error("Error loading audio:", e);
@@ -238,12 +607,33 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         error: "Unable to play this audiobook. The file may not be accessible.\n\nTry re-importing the book.",
       }));
     }
-  }, [onPlaybackStatusUpdate]);
+  }, [onPlaybackStatusUpdate, endSilenceTrim, setSampleListener]);
+
+  // Go to a specific chapter
+  const goToChapter = useCallback(async (chapterIndex: number, startPosition: number = 0) => {
+    const { chapters, playbackSpeed, isPlaying } = stateRef.current;
+    if (chapterIndex < 0 || chapterIndex >= chapters.length) return;
+
+    const chapter = chapters[chapterIndex];
+    setState(prev => ({
+      ...prev,
+      currentChapterIndex: chapterIndex,
+      positionMs: startPosition,
+    }));
+
+    await loadChapterAudio(chapter, startPosition, playbackSpeed, isPlaying);
+  }, [loadChapterAudio]);
 
   // Load a book
-  const loadBook = useCallback(async (bookId: number) => {
+  const loadBook = useCallback(async (bookId: number, startAt?: StartPosition) => {
     // If same book is already loaded, don't reload
     if (stateRef.current.book?.id === bookId && soundRef.current) {
+      if (startAt) {
+        const index = stateRef.current.chapters.findIndex(c => c.id === startAt.chapterId);
+        if (index >= 0) {
+          await goToChapter(index, startAt.positionMs);
+        }
+      }
       return;
     }
 
@@ -271,6 +661,7 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         console.warn("Error unloading previous audio:", e);
       }
       soundRef.current = null;
+      loadedFilePathRef.current = null;
     }
 
     setState(prev => ({ ...prev, isLoading: true, error: null }));
@@ -282,20 +673,35 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    // Load saved progress
+    // Load saved progress, unless an explicit start position was requested
     let chapterIndex = 0;
     let initialPosition = 0;
-    const progress = await getProgress(bookId);
+    const savedProgress = startAt ? null : await getProgress(bookId);
+    const progress = startAt
+      ? { current_chapter_id: startAt.chapterId, position_ms: startAt.positionMs }
+      : savedProgress;
     if (progress && bookData.chapters.length > 0) {
       const foundIndex = bookData.chapters.findIndex(c => c.id === progress.current_chapter_id);
       if (foundIndex >= 0) {
         chapterIndex = foundIndex;
         initialPosition = progress.position_ms;
+      } else {
+        // getBookWithChapters leaves out missing chapters; look up where this one was
+        const allChapters = await getAllChaptersForBook(bookId);
+        const missing = allChapters.find(c => c.id === progress.current_chapter_id);
+        if (missing) {
+          chapterIndex = findNearestAvailableChapter(bookData.chapters, missing.position);
+        }
       }
     }
 
-    // Clear chapter durations for the new book
-    chapterDurationsRef.current.clear();
+    // Resuming after an app restart rewinds by the time since the book was last played
+    pausedAtRef.current = savedProgress ? parseDatabaseTimestamp(savedProgress.last_played_at) : null;
+    wasPlayingRef.current = false;
+    lastSavedProgressRef.current = null;
+
+    // Clear file durations for the new book
+    fileDurationsRef.current.clear();
 
     // Initialize book history for analytics
     try {
@@ -307,12 +713,19 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     accumulatedListeningMsRef.current = 0;
     lastProgressTimestampRef.current = null;
 
+    // A book's own speed may be outside a range that was narrowed since it was set
+    const speed = clampPlaybackSpeed(bookData.book.playback_speed ?? await getDefaultPlaybackSpeed(), getPreferences());
+    trimSilenceRef.current = bookData.book.trim_silence === 1;
+
     setState(prev => ({
       ...prev,
       book: bookData.book,
       chapters: bookData.chapters,
       currentChapterIndex: chapterIndex,
       positionMs: initialPosition,
+      playbackSpeed: speed,
+      trimSilence: trimSilenceRef.current,
+      nextInSeries: null,
       isLoading: false,
     }));
 
@@ -323,33 +736,108 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       await loadChapterAudio(
         bookData.chapters[chapterIndex],
         initialPosition,
-        stateRef.current.playbackSpeed,
+        speed,
         false // Don't auto-play on load
       );
 
-      // Save progress immediately so the book moves to "In Progress"
-      try {
-        await updateProgress(bookData.book.id, bookData.chapters[chapterIndex].id, initialPosition);
-      } catch (e) {
-        console.warn("Error saving initial progress:", e);
+      // Save progress immediately so the book moves to "In Progress". Books that already
+      // have progress keep their last_played_at until playback actually resumes.
+      const chapterId = bookData.chapters[chapterIndex].id;
+      lastSavedProgressRef.current = { chapterId, positionMs: initialPosition };
+      if (!savedProgress) {
+        try {
+          await updateProgress(bookData.book.id, chapterId, initialPosition);
+        } catch (e) {
+          console.warn("Error saving initial progress:", e);
+        }
       }
     }
-  }, [loadChapterAudio]);
+  }, [loadChapterAudio, goToChapter]);
 
-  // Go to a specific chapter
-  const goToChapter = useCallback(async (chapterIndex: number, startPosition: number = 0) => {
-    const { chapters, playbackSpeed, isPlaying } = stateRef.current;
-    if (chapterIndex < 0 || chapterIndex >= chapters.length) return;
+  // Pause
+  const pause = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
 
-    const chapter = chapters[chapterIndex];
-    setState(prev => ({
-      ...prev,
-      currentChapterIndex: chapterIndex,
-      positionMs: startPosition,
-    }));
+    try {
+      await sound.pauseAsync();
+    } catch (e) {
+      console.error("Error pausing:", e);
+    }
+  }, []);
 
-    await loadChapterAudio(chapter, startPosition, playbackSpeed, isPlaying);
-  }, [loadChapterAudio]);
+  // Tell the lock screen where playback is; it extrapolates the position from the rate
+  const publishPlaybackState = useCallback((positionMs: number) => {
+    const { book, isPlaying, playbackSpeed } = stateRef.current;
+    if (!book) return;
+    MediaControl.updatePlaybackState(
+      isPlaying ? PlaybackState.PLAYING : PlaybackState.PAUSED,
+      positionMs / 1000,
+      isPlaying ? playbackSpeed : 0
+    ).catch((e) => console.warn("Error updating lock screen playback state:", e));
+  }, []);
+
+  // Save the current position right away instead of waiting for the interval
+  const saveProgressNow = useCallback(async () => {
+    const { book, chapters, currentChapterIndex, positionMs } = stateRef.current;
+    const chapter = chapters[currentChapterIndex];
+    if (!book || !chapter) return;
+    try {
+      await updateProgress(book.id, chapter.id, positionMs);
+    } catch (e) {
+      console.warn("Error saving progress:", e);
+    }
+  }, []);
+
+  // Seek to position
+  const seekTo = useCallback(async (positionMs: number) => {
+    const sound = soundRef.current;
+    const { book, chapters, currentChapterIndex } = stateRef.current;
+    if (!sound || !book) return;
+
+    try {
+      // Positions are relative to the chapter, which may be a slice of a longer file
+      const chapter = chapters[currentChapterIndex];
+      await sound.setPositionAsync((chapter?.start_ms ?? 0) + positionMs);
+      // Don't wait for the next status update, so repeated skips start from here
+      setState(prev => ({ ...prev, positionMs }));
+      publishPlaybackState(positionMs);
+      // Immediate save on seek
+      if (chapter) {
+        await updateProgress(book.id, chapter.id, positionMs);
+      }
+    } catch (e) {
+      console.error("Error seeking:", e);
+    }
+  }, [publishPlaybackState]);
+
+  // Rewind a little before resuming, more the longer playback was paused
+  const applySmartRewind = useCallback(async () => {
+    const pausedAt = pausedAtRef.current;
+    pausedAtRef.current = null;
+    if (pausedAt === null) return;
+
+    const { smartRewind, smartRewindCrossChapters } = await loadPreferences();
+    if (!smartRewind) return;
+
+    const rewindMs = getSmartRewindMs(Date.now() - pausedAt);
+    if (rewindMs === 0) return;
+
+    const { chapters, currentChapterIndex, positionMs } = stateRef.current;
+    const target = positionMs - rewindMs;
+    if (target >= 0 || !smartRewindCrossChapters || currentChapterIndex === 0) {
+      await seekTo(Math.max(0, target));
+      return;
+    }
+
+    // Continue the rewind from the end of the previous chapter
+    const previousDuration = getChapterLengthMs(chapters[currentChapterIndex - 1]);
+    if (previousDuration > 0) {
+      await goToChapter(currentChapterIndex - 1, Math.max(0, previousDuration + target));
+    } else {
+      await seekTo(0);
+    }
+  }, [seekTo, goToChapter]);
 
   // Toggle playback
   const togglePlayback = useCallback(async () => {
@@ -362,62 +850,60 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         if (status.isPlaying) {
           await sound.pauseAsync();
         } else {
-          await sound.playAsync();
+          await applySmartRewind();
+          // Rewinding into the previous chapter may have loaded a different file
+          await soundRef.current?.playAsync();
         }
       }
     } catch (e) {
       console.error("Error toggling playback:", e);
     }
-  }, []);
+  }, [applySmartRewind]);
 
   // Play
   const play = useCallback(async () => {
-    const sound = soundRef.current;
-    if (!sound) return;
+    if (!soundRef.current) return;
 
     try {
-      await sound.playAsync();
+      await applySmartRewind();
+      await soundRef.current?.playAsync();
     } catch (e) {
       console.error("Error playing:", e);
     }
-  }, []);
+  }, [applySmartRewind]);
 
-  // Pause
-  const pause = useCallback(async () => {
-    const sound = soundRef.current;
-    if (!sound) return;
+  // Seek relative (skip forward/back), continuing into neighbouring chapters
+  const seekRelative = useCallback(async (deltaMs: number) => {
+    const { chapters, currentChapterIndex, positionMs, durationMs } = stateRef.current;
+    if (chapters.length === 0) return;
 
-    try {
-      await sound.pauseAsync();
-    } catch (e) {
-      console.error("Error pausing:", e);
-    }
-  }, []);
+    let index = currentChapterIndex;
+    let target = positionMs + deltaMs;
+    let lengthMs = durationMs > 0 ? durationMs : getChapterLengthMs(chapters[index]);
 
-  // Seek to position
-  const seekTo = useCallback(async (positionMs: number) => {
-    const sound = soundRef.current;
-    const { book, chapters, currentChapterIndex } = stateRef.current;
-    if (!sound || !book) return;
+    while (target < 0 && index > 0) {
+      const previousLength = getChapterLengthMs(chapters[index - 1]);
+      if (previousLength <= 0) break;
+      index--;
+      target += previousLength;
+      lengthMs = previousLength;
+    }
 
-    try {
-      await sound.setPositionAsync(positionMs);
-      // Immediate save on seek
-      const chapter = chapters[currentChapterIndex];
-      if (chapter) {
-        await updateProgress(book.id, chapter.id, positionMs);
-      }
-    } catch (e) {
-      console.error("Error seeking:", e);
+    while (lengthMs > 0 && target > lengthMs && index < chapters.length - 1) {
+      target -= lengthMs;
+      index++;
+      lengthMs = getChapterLengthMs(chapters[index]);
+      // An unprobed chapter's length isn't known, so start it from the top
+      if (lengthMs <= 0) target = 0;
     }
-  }, []);
 
-  // Seek relative (skip forward/back)
-  const seekRelative = useCallback(async (deltaMs: number) => {
-    const { positionMs, durationMs } = stateRef.current;
-    const newPosition = Math.max(0, Math.min(durationMs, positionMs + deltaMs));
-    await seekTo(newPosition);
-  }, [seekTo]);
+    target = Math.max(0, lengthMs > 0 ? Math.min(lengthMs, target) : target);
+    if (index === currentChapterIndex) {
+      await seekTo(target);
+    } else {
+      await goToChapter(index, target);
+    }
+  }, [seekTo, goToChapter]);
 
   // Next chapter
   const nextChapter = useCallback(async () => {
@@ -435,9 +921,29 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     }
   }, [goToChapter]);
 
-  // Set playback speed
-  const setPlaybackSpeed = useCallback(async (speed: number) => {
+  const setTrimSilence = useCallback(async (enabled: boolean) => {
+    trimSilenceRef.current = enabled;
+    setState(prev => ({ ...prev, trimSilence: enabled }));
+
+    const sound = soundRef.current;
+    if (sound) {
+      setSampleListener(sound, enabled);
+      if (!enabled) endSilenceTrim(Date.now());
+    }
+
+    const { book } = stateRef.current;
+    if (!book) return;
+    try {
+      await updateBookTrimSilence(book.id, enabled);
+    } catch (e) {
+      console.warn("Error saving trim silence setting:", e);
+    }
+  }, [setSampleListener, endSilenceTrim]);
+
+  const applyPlaybackSpeed = useCallback(async (speed: number) => {
     setState(prev => ({ ...prev, playbackSpeed: speed }));
+    // A trim in progress would otherwise keep the old speed's faster rate
+    endSilenceTrim(Date.now());
 
     const sound = soundRef.current;
     if (!sound) return;
@@ -447,6 +953,195 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     } catch (e) {
       console.error("Error setting playback rate:", e);
     }
+  }, [endSilenceTrim]);
+
+  // Set playback speed and remember it for the current book
+  const setPlaybackSpeed = useCallback(async (speed: number) => {
+    await applyPlaybackSpeed(speed);
+
+    const { book } = stateRef.current;
+    if (!book) return;
+    try {
+      await updateBookPlaybackSpeed(book.id, speed);
+    } catch (e) {
+      console.warn("Error saving playback speed:", e);
+    }
+  }, [applyPlaybackSpeed]);
+
+  // Forget the current book's speed and go back to the global default
+  const resetPlaybackSpeed = useCallback(async () => {
+    const { book } = stateRef.current;
+    const speed = await getDefaultPlaybackSpeed();
+    await applyPlaybackSpeed(speed);
+
+    if (!book) return;
+    try {
+      await updateBookPlaybackSpeed(book.id, null);
+    } catch (e) {
+      console.warn("Error resetting playback speed:", e);
+    }
+  }, [applyPlaybackSpeed]);
+
+  // Start a sleep timer, replacing any running one
+  const startSleepTimer = useCallback((option: SleepTimerOption) => {
+    restoreVolume();
+
+    if (option.type === "duration") {
+      const remainingMs = option.minutes * 60000;
+      sleepTimerModeRef.current = "duration";
+      sleepTimerEndsAtRef.current = Date.now() + remainingMs;
+      setState(prev => ({ ...prev, sleepTimer: { mode: "duration", remainingMs } }));
+    } else {
+      const { positionMs, durationMs, playbackSpeed } = stateRef.current;
+      sleepTimerModeRef.current = "endOfChapter";
+      sleepTimerEndsAtRef.current = null;
+      setState(prev => ({
+        ...prev,
+        sleepTimer: {
+          mode: "endOfChapter",
+          remainingMs: Math.max(0, (durationMs - positionMs) / playbackSpeed),
+        },
+      }));
+    }
+  }, [restoreVolume]);
+
+  // Add time to the running sleep timer
+  const extendSleepTimer = useCallback((minutes: number) => {
+    const mode = sleepTimerModeRef.current;
+    if (!mode) return;
+
+    // An end-of-chapter timer becomes a fixed timer counting from the chapter's end
+    const baseEndsAt = mode === "duration" && sleepTimerEndsAtRef.current !== null
+      ? sleepTimerEndsAtRef.current
+      : Date.now() + (stateRef.current.sleepTimer?.remainingMs ?? 0);
+    const endsAt = baseEndsAt + minutes * 60000;
+
+    sleepTimerModeRef.current = "duration";
+    sleepTimerEndsAtRef.current = endsAt;
+    setState(prev => ({
+      ...prev,
+      sleepTimer: { mode: "duration", remainingMs: Math.max(0, endsAt - Date.now()) },
+    }));
+    restoreVolume();
+  }, [restoreVolume]);
+
+  // Cancel the sleep timer
+  const cancelSleepTimer = useCallback(() => {
+    clearSleepTimer();
+    restoreVolume();
+  }, [clearSleepTimer, restoreVolume]);
+
+  // Shake the phone to extend a running sleep timer
+  const isSleepTimerActive = state.sleepTimer !== null;
+  useEffect(() => {
+    if (!isSleepTimerActive) return;
+
+    let lastShakeAt = 0;
+    Accelerometer.setUpdateInterval(100);
+    const subscription = Accelerometer.addListener(({ x, y, z }) => {
+      const force = Math.sqrt(x * x + y * y + z * z);
+      const now = Date.now();
+      if (force < SHAKE_THRESHOLD_G || now - lastShakeAt < SHAKE_COOLDOWN_MS) return;
+
+      lastShakeAt = now;
+      extendSleepTimer(SLEEP_TIMER_SHAKE_EXTEND_MINUTES);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    });
+
+    return () => subscription.remove();
+  }, [isSleepTimerActive, extendSleepTimer]);
+
+  // Lock screen and notification controls. The module only takes one interval for
+  // the buttons' icons, so they show the forward one; each command still skips by
+  // its own direction's interval.
+  const remoteSkipSeconds = preferences.skipForwardSeconds;
+  useEffect(() => {
+    MediaControl.enableMediaControls({
+      capabilities: [
+        Command.PLAY,
+        Command.PAUSE,
+        Command.NEXT_TRACK,
+        Command.PREVIOUS_TRACK,
+        Command.SKIP_FORWARD,
+        Command.SKIP_BACKWARD,
+        Command.SEEK,
+      ],
+      compactCapabilities: [Command.SKIP_BACKWARD, Command.PLAY, Command.SKIP_FORWARD],
+      ios: { skipInterval: remoteSkipSeconds },
+      android: { skipInterval: remoteSkipSeconds },
+    }).catch((e) => console.warn("Error enabling media controls:", e));
+
+    const removeListener = MediaControl.addListener(async (event: MediaControlEvent) => {
+      const { isPlaying } = stateRef.current;
+      const { skipBackSeconds, skipForwardSeconds } = getPreferences();
+      switch (event.command) {
+        case Command.PLAY:
+          if (!isPlaying) await togglePlayback();
+          break;
+        case Command.PAUSE:
+          if (isPlaying) await togglePlayback();
+          break;
+        case Command.SKIP_FORWARD:
+          await seekRelative(skipForwardSeconds * 1000);
+          break;
+        case Command.SKIP_BACKWARD:
+          await seekRelative(-skipBackSeconds * 1000);
+          break;
+        case Command.NEXT_TRACK:
+          await nextChapter();
+          break;
+        case Command.PREVIOUS_TRACK:
+          await previousChapter();
+          break;
+        case Command.SEEK:
+          if (typeof event.data?.position === "number") {
+            await seekTo(event.data.position * 1000);
+          }
+          break;
+      }
+      // The app may be suspended soon after a lock screen command, so don't wait for the interval
+      await saveProgressNow();
+    });
+
+    return () => {
+      removeListener();
+      MediaControl.disableMediaControls().catch((e) => console.warn("Error disabling media controls:", e));
+    };
+  }, [remoteSkipSeconds, togglePlayback, seekRelative, seekTo, nextChapter, previousChapter, saveProgressNow]);
+
+  // Now-playing metadata, once the chapter's length is known
+  const currentChapter = state.chapters[state.currentChapterIndex];
+  const hasDuration = state.durationMs > 0;
+  useEffect(() => {
+    const { book, durationMs, positionMs } = stateRef.current;
+    if (!book || !currentChapter || !hasDuration) return;
+
+    MediaControl.updateMetadata({
+      title: currentChapter.title,
+      artist: book.author ?? undefined,
+      album: book.title,
+      artwork: book.cover_path ? { uri: book.cover_path } : undefined,
+      duration: durationMs / 1000,
+      elapsedTime: positionMs / 1000,
+    }).catch((e) => console.warn("Error updating lock screen metadata:", e));
+  }, [state.book, currentChapter, hasDuration]);
+
+  // Playback state, whenever playing/paused or speed changes
+  useEffect(() => {
+    publishPlaybackState(stateRef.current.positionMs);
+  }, [state.isPlaying, state.playbackSpeed, currentChapter, publishPlaybackState]);
+
+  // Pick up edited details (title, cover...) for the loaded book without reloading audio
+  const refreshBook = useCallback(async (bookId: number) => {
+    if (stateRef.current.book?.id !== bookId) return;
+    const bookData = await getBookWithChapters(bookId);
+    if (bookData) {
+      setState(prev => (prev.book?.id === bookId ? { ...prev, book: bookData.book } : prev));
+    }
+  }, []);
+
+  const dismissNextInSeries = useCallback(() => {
+    setState(prev => ({ ...prev, nextInSeries: null }));
   }, []);
 
   // Stop and unload
@@ -461,26 +1156,37 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     }
 
     if (soundRef.current) {
+      endSilenceTrim(Date.now());
       try {
         await soundRef.current.unloadAsync();
       } catch (e) {
         console.warn("Error unloading audio:", e);
       }
       soundRef.current = null;
+      loadedFilePathRef.current = null;
     }
 
     setState(initialState);
-    chapterDurationsRef.current.clear();
+    MediaControl.resetControls().catch((e) => console.warn("Error resetting media controls:", e));
+    fileDurationsRef.current.clear();
+    sleepTimerModeRef.current = null;
+    sleepTimerEndsAtRef.current = null;
+    isFadingRef.current = false;
+    pausedAtRef.current = null;
+    wasPlayingRef.current = false;
+    lastSavedProgressRef.current = null;
+    trimSilenceRef.current = false;
     bookHistoryRef.current = null;
     accumulatedListeningMsRef.current = 0;
     lastProgressTimestampRef.current = null;
-  }, []);
+  }, [endSilenceTrim]);
 
   return (
     <AudioContext.Provider
       value={{
         state,
         loadBook,
+        refreshBook,
         togglePlayback,
         play,
         pause,
@@ -490,6 +1196,13 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         nextChapter,
         previousChapter,
         setPlaybackSpeed,
+        previewPlaybackSpeed: applyPlaybackSpeed,
+        resetPlaybackSpeed,
+        setTrimSilence,
+        startSleepTimer,
+        extendSleepTimer,
+        cancelSleepTimer,
+        dismissNextInSeries,
         stopAndUnload,
       }}
     >
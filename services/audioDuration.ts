@@ -0,0 +1,284 @@
+import {
+  readBytes,
+  getFileSize,
+  readUint16LE,
+  readUint32BE,
+  readUint32LE,
+  readUint64LE,
+  readSyncsafeInt,
+  startsWithAscii,
+} from "./byteReader";
+import { readMp4DurationMs } from "./mp4";
+import { listFlacBlocks } from "./metadata";
+
+const FLAC_STREAMINFO = 0;
+const OGG_TAIL_BYTES = 64 * 1024;
+const OPUS_SAMPLE_RATE = 48000;
+const MP3_SYNC_SEARCH_BYTES = 64 * 1024;
+const MP3_SCAN_CHUNK_BYTES = 1024 * 1024;
+// Frames sampled to decide whether an MP3 without a VBR header is constant bitrate
+const MP3_CBR_SAMPLE_FRAMES = 30;
+const ID3V1_SIZE = 128;
+
+// Read an audio file's length from its headers, without decoding. Returns null when
+// the format isn't recognised or the headers are damaged — playback fills it in later.
+export async function readAudioDurationMs(uri: string, filename: string): Promise<number | null> {
+  const lower = filename.toLowerCase();
+
+  try {
+    const fileSize = await getFileSize(uri);
+    if (fileSize === 0) return null;
+
+    let durationMs: number | null = null;
+    if (lower.endsWith(".m4a") || lower.endsWith(".m4b")) {
+      durationMs = await readMp4DurationMs(uri, fileSize);
+    } else if (lower.endsWith(".flac")) {
+      durationMs = await readFlacDurationMs(uri, fileSize);
+    } else if (lower.endsWith(".ogg")) {
+      durationMs = await readOggDurationMs(uri, fileSize);
+    } else if (lower.endsWith(".wav")) {
+      durationMs = await readWavDurationMs(uri, fileSize);
+    } else if (lower.endsWith(".mp3")) {
+      durationMs = await readMp3DurationMs(uri, fileSize);
+    }
+
+    return durationMs !== null && durationMs > 0 ? Math.round(durationMs) : null;
+  } catch (error) {
+    console.warn(`Error reading duration of ${filename}:`, error);
+    return null;
+  }
+}
+
+// FLAC: total samples and sample rate from the STREAMINFO block
+
+async function readFlacDurationMs(uri: string, fileSize: number): Promise<number | null> {
+  const blocks = await listFlacBlocks(uri, fileSize);
+  const streamInfo = blocks.find((b) => b.type === FLAC_STREAMINFO);
+  if (!streamInfo || streamInfo.length < 18) return null;
+
+  const data = await readBytes(uri, streamInfo.start, 18);
+  const sampleRate = (data[10] << 12) | (data[11] << 4) | (data[12] >> 4);
+  const totalSamples = (data[13] & 0x0f) * 0x100000000 + readUint32BE(data, 14);
+  if (sampleRate === 0 || totalSamples === 0) return null;
+
+  return (totalSamples / sampleRate) * 1000;
+}
+
+// Ogg: the granule position of the last page is the stream's length in samples
+
+async function readOggDurationMs(uri: string, fileSize: number): Promise<number | null> {
+  // The identification header is the only packet on the first page
+  const head = await readBytes(uri, 0, Math.min(fileSize, 512));
+  if (!startsWithAscii(head, 0, "OggS")) return null;
+  const packetStart = 27 + head[26];
+
+  let sampleRate: number;
+  let preSkip = 0;
+  if (startsWithAscii(head, packetStart, "\u0001vorbis")) {
+    sampleRate = readUint32LE(head, packetStart + 12);
+  } else if (startsWithAscii(head, packetStart, "OpusHead")) {
+    // Opus granules always count 48 kHz samples, including the encoder's pre-skip
+    sampleRate = OPUS_SAMPLE_RATE;
+    preSkip = readUint16LE(head, packetStart + 10);
+  } else {
+    return null;
+  }
+  if (sampleRate === 0) return null;
+
+  const tailStart = Math.max(0, fileSize - OGG_TAIL_BYTES);
+  const tail = await readBytes(uri, tailStart, fileSize - tailStart);
+
+  // Walk back to the last page that ends a packet (-1 granules mean "no packet ends here")
+  for (let i = tail.length - 27; i >= 0; i--) {
+    if (!startsWithAscii(tail, i, "OggS") || tail[i + 4] !== 0) continue;
+    const low = readUint32LE(tail, i + 6);
+    const high = readUint32LE(tail, i + 10);
+    if (low === 0xffffffff && high === 0xffffffff) continue;
+
+    const granule = readUint64LE(tail, i + 6);
+    return (Math.max(0, granule - preSkip) / sampleRate) * 1000;
+  }
+  return null;
+}
+
+// WAV: data chunk size divided by the byte rate from the fmt chunk
+
+async function readWavDurationMs(uri: string, fileSize: number): Promise<number | null> {
+  const header = await readBytes(uri, 0, 12);
+  if (!startsWithAscii(header, 0, "RIFF") || !startsWithAscii(header, 8, "WAVE")) return null;
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= fileSize) {
+    const chunk = await readBytes(uri, offset, 20);
+    const size = readUint32LE(chunk, 4);
+
+    if (startsWithAscii(chunk, 0, "fmt ")) {
+      // format(2) channels(2) sample rate(4), then the average bytes per second
+      byteRate = readUint32LE(chunk, 16);
+    } else if (startsWithAscii(chunk, 0, "data")) {
+      if (byteRate === 0) return null;
+      // Streamed recordings leave the size unset; use what is actually on disk
+      const dataSize = Math.min(size, fileSize - offset - 8);
+      return (dataSize / byteRate) * 1000;
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// MP3: Xing/Info or VBRI header frame counts, a bitrate estimate for constant bitrate
+// files, or a scan of every frame header as the last resort
+
+interface Mp3Frame {
+  version: number;
+  bitrate: number;
+  sampleRate: number;
+  samples: number;
+  length: number;
+  isMono: boolean;
+}
+
+const MP3_BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  25: [11025, 12000, 8000],
+};
+
+function parseMp3FrameHeader(data: Uint8Array, offset: number): Mp3Frame | null {
+  if (offset + 4 > data.length) return null;
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (data[offset + 1] >> 3) & 0x03;
+  const layerBits = (data[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 25;
+  const layer = 4 - layerBits;
+  const bitrate = MP3_BITRATES[`${version === 1 ? 1 : 2}-${layer}`][bitrateIndex];
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+
+  let samples: number;
+  let length: number;
+  if (layer === 1) {
+    samples = 384;
+    length = (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4;
+  } else {
+    samples = layer === 3 && version !== 1 ? 576 : 1152;
+    length = Math.floor(((samples / 8) * bitrate * 1000) / sampleRate) + padding;
+  }
+
+  return { version, bitrate, sampleRate, samples, length, isMono: data[offset + 3] >> 6 === 3 };
+}
+
+async function getId3v2Size(uri: string, fileSize: number): Promise<number> {
+  if (fileSize < 10) return 0;
+  const header = await readBytes(uri, 0, 10);
+  if (!startsWithAscii(header, 0, "ID3")) return 0;
+  // A footer repeats the header at the end of the tag
+  const footer = header[5] & 0x10 ? 10 : 0;
+  return 10 + readSyncsafeInt(header, 6) + footer;
+}
+
+async function readMp3DurationMs(uri: string, fileSize: number): Promise<number | null> {
+  const tagSize = await getId3v2Size(uri, fileSize);
+  const data = await readBytes(uri, tagSize, Math.min(MP3_SYNC_SEARCH_BYTES, fileSize - tagSize));
+
+  // First frame sync that is followed by another valid frame
+  let firstOffset = -1;
+  let first: Mp3Frame | null = null;
+  for (let i = 0; i + 4 <= data.length; i++) {
+    const frame = parseMp3FrameHeader(data, i);
+    if (!frame) continue;
+    const next = i + frame.length;
+    if (next + 4 > data.length || parseMp3FrameHeader(data, next)) {
+      firstOffset = i;
+      first = frame;
+      break;
+    }
+  }
+  if (!first) return null;
+
+  // Xing/Info sits after the side information; VBRI at a fixed offset
+  const sideInfoSize = first.version === 1 ? (first.isMono ? 17 : 32) : first.isMono ? 9 : 17;
+  const xingOffset = firstOffset + 4 + sideInfoSize;
+  if (startsWithAscii(data, xingOffset, "Xing") || startsWithAscii(data, xingOffset, "Info")) {
+    const flags = readUint32BE(data, xingOffset + 4);
+    if (flags & 0x01) {
+      const frames = readUint32BE(data, xingOffset + 8);
+      return ((frames * first.samples) / first.sampleRate) * 1000;
+    }
+  }
+  const vbriOffset = firstOffset + 36;
+  if (startsWithAscii(data, vbriOffset, "VBRI")) {
+    const frames = readUint32BE(data, vbriOffset + 14);
+    return ((frames * first.samples) / first.sampleRate) * 1000;
+  }
+
+  const audioStart = tagSize + firstOffset;
+  const trailer = await readBytes(uri, fileSize - ID3V1_SIZE, 3);
+  const audioEnd = startsWithAscii(trailer, 0, "TAG") ? fileSize - ID3V1_SIZE : fileSize;
+
+  // Constant bitrate: the byte count gives the length directly
+  let isConstant = true;
+  let offset = firstOffset;
+  for (let i = 0; i < MP3_CBR_SAMPLE_FRAMES; i++) {
+    const frame = parseMp3FrameHeader(data, offset);
+    if (!frame) break;
+    if (frame.bitrate !== first.bitrate) {
+      isConstant = false;
+      break;
+    }
+    offset += frame.length;
+  }
+  if (isConstant) {
+    return ((audioEnd - audioStart) * 8) / first.bitrate;
+  }
+
+  return await scanMp3Frames(uri, audioStart, audioEnd);
+}
+
+// Add up the samples of every frame, reading the file a chunk at a time
+async function scanMp3Frames(uri: string, audioStart: number, audioEnd: number): Promise<number | null> {
+  let totalMs = 0;
+  let position = audioStart;
+
+  while (position + 4 <= audioEnd) {
+    const chunk = await readBytes(uri, position, Math.min(MP3_SCAN_CHUNK_BYTES, audioEnd - position));
+    let offset = 0;
+
+    while (offset + 4 <= chunk.length) {
+      const frame = parseMp3FrameHeader(chunk, offset);
+      if (!frame) {
+        // Lost sync (junk or a damaged frame) — search forward byte by byte
+        offset++;
+        continue;
+      }
+      if (offset + frame.length > chunk.length) break;
+      totalMs += (frame.samples / frame.sampleRate) * 1000;
+      offset += frame.length;
+    }
+
+    // A frame straddling the chunk boundary is read again with the next chunk
+    if (offset === 0) break;
+    position += offset;
+  }
+
+  return totalMs > 0 ? totalMs : null;
+}
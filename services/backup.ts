@@ -0,0 +1,519 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as DocumentPicker from "expo-document-picker";
+import * as SQLite from "expo-sqlite";
+import {
+  Book,
+  Chapter,
+  Progress,
+  FolderSource,
+  BookHistory,
+  ListeningSession,
+  getDatabase,
+  setSearchText,
+} from "./database";
+import { exportFile } from "./exportFile";
+
+const BACKUP_FORMAT = "book-player-backup";
+// Bump when the file layout changes; older files must still import
+const BACKUP_VERSION = 1;
+
+// Books whose folder moved (a new phone, or a reinstall on iOS) match on title
+// when their lengths are this close
+const DURATION_MATCH_TOLERANCE_MS = 60 * 1000;
+
+interface LibraryTables {
+  books: Book[];
+  chapters: Chapter[];
+  progress: Progress[];
+  folder_sources: FolderSource[];
+  book_history: BookHistory[];
+  listening_sessions: ListeningSession[];
+}
+
+export interface LibraryBackup extends LibraryTables {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+}
+
+export interface ImportCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface ImportSummary {
+  books: ImportCounts;
+  folderSources: ImportCounts;
+  history: ImportCounts;
+  sessions: ImportCounts;
+}
+
+interface BookAction {
+  book: Book;
+  // Null when the book is added
+  localId: number | null;
+  // The chapters to add with the book, flagged missing when their file isn't here
+  chapters: Chapter[];
+  // Written when the backup's position is newer than the one on this device
+  progress: Progress | null;
+}
+
+interface HistoryAction {
+  history: BookHistory;
+  localId: number | null;
+  changes: Partial<Pick<BookHistory, "started_at" | "completed_at" | "silence_trimmed_ms">>;
+}
+
+// What an import will change, worked out without writing anything
+export interface ImportPlan {
+  backup: LibraryBackup;
+  summary: ImportSummary;
+  // New books left out because none of their files are on this device
+  booksNotFound: number;
+  folderSources: FolderSource[];
+  books: BookAction[];
+  history: HistoryAction[];
+  sessions: ListeningSession[];
+  // Backup ids of rows that already exist here, mapped to their local ids
+  bookIds: Map<number, number>;
+  chapterIds: Map<number, number>;
+  historyIds: Map<number, number>;
+}
+
+async function readTables(database: SQLite.SQLiteDatabase): Promise<LibraryTables> {
+  return {
+    books: await database.getAllAsync<Book>(`SELECT * FROM books ORDER BY id`),
+    chapters: await database.getAllAsync<Chapter>(`SELECT * FROM chapters ORDER BY book_id, position, start_ms`),
+    progress: await database.getAllAsync<Progress>(`SELECT * FROM progress`),
+    folder_sources: await database.getAllAsync<FolderSource>(`SELECT * FROM folder_sources ORDER BY id`),
+    book_history: await database.getAllAsync<BookHistory>(`SELECT * FROM book_history ORDER BY id`),
+    listening_sessions: await database.getAllAsync<ListeningSession>(
+      `SELECT * FROM listening_sessions ORDER BY book_history_id, session_date`
+    ),
+  };
+}
+
+export async function createBackup(): Promise<LibraryBackup> {
+  const database = await getDatabase();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    ...(await readTables(database)),
+  };
+}
+
+// Returns false if the user cancels saving the file
+export async function exportLibrary(): Promise<boolean> {
+  const backup = await createBackup();
+  const fileName = `book-player-backup-${backup.exported_at.split("T")[0]}`;
+  return await exportFile(fileName, "json", "application/json", JSON.stringify(backup));
+}
+
+export function parseBackup(text: string): LibraryBackup {
+  let data: Partial<LibraryBackup>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't a library backup.");
+  }
+
+  if (!data || data.format !== BACKUP_FORMAT) {
+    throw new Error("This file isn't a library backup.");
+  }
+  if (typeof data.version !== "number" || data.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Update the app and try again.");
+  }
+
+  const tables: (keyof LibraryTables)[] = [
+    "books",
+    "chapters",
+    "progress",
+    "folder_sources",
+    "book_history",
+    "listening_sessions",
+  ];
+  for (const table of tables) {
+    if (!Array.isArray(data[table])) {
+      throw new Error(`The backup is incomplete: "${table}" is missing.`);
+    }
+  }
+  return data as LibraryBackup;
+}
+
+// Returns null if the user cancels the picker
+export async function pickBackup(): Promise<LibraryBackup | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    // Some file providers don't label JSON files as JSON
+    type: ["application/json", "text/plain", "application/octet-stream"],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets || result.assets.length === 0) {
+    return null;
+  }
+
+  const text = await FileSystem.readAsStringAsync(result.assets[0].uri);
+  return parseBackup(text);
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+function isSameBook(local: Book, book: Book): boolean {
+  return (
+    normalizeTitle(local.title) === normalizeTitle(book.title) &&
+    // A length of 0 hasn't been measured yet, so the title has to do
+    (local.total_duration_ms === 0 ||
+      book.total_duration_ms === 0 ||
+      Math.abs(local.total_duration_ms - book.total_duration_ms) <= DURATION_MATCH_TOLERANCE_MS)
+  );
+}
+
+// Maps backup book ids to local books. Folder paths are matched across the whole
+// backup before titles, and each local book stands in for at most one backup book.
+function matchBooks(backupBooks: Book[], localBooks: Book[]): Map<number, Book> {
+  const matches = new Map<number, Book>();
+  const unmatched = new Set(localBooks);
+
+  for (const book of backupBooks) {
+    const local = localBooks.find((b) => b.folder_path === book.folder_path);
+    if (local) {
+      matches.set(book.id, local);
+      unmatched.delete(local);
+    }
+  }
+  for (const book of backupBooks) {
+    if (matches.has(book.id)) continue;
+    const local = [...unmatched].find((b) => isSameBook(b, book));
+    if (local) {
+      matches.set(book.id, local);
+      unmatched.delete(local);
+    }
+  }
+  return matches;
+}
+
+// A chapter keeps its file name when the folder moves, so match on that and the
+// start time within the file, then fall back to the chapter's place in the book
+function findLocalChapter(chapter: Chapter, candidates: Chapter[]): Chapter | undefined {
+  const fileName = chapter.file_path.split("/").pop();
+  return (
+    candidates.find((c) => c.file_path === chapter.file_path && c.start_ms === chapter.start_ms) ??
+    candidates.find((c) => c.file_path.split("/").pop() === fileName && c.start_ms === chapter.start_ms) ??
+    candidates.find((c) => c.position === chapter.position && c.start_ms === chapter.start_ms)
+  );
+}
+
+// SAF files whose permission didn't survive a reinstall count as gone too
+async function fileExists(uri: string): Promise<boolean> {
+  try {
+    return (await FileSystem.getInfoAsync(uri)).exists;
+  } catch {
+    return false;
+  }
+}
+
+// A backup from another device lists files that may not be here. Adding a book
+// whose files are all gone would leave a copy the next scan can't match.
+async function findAvailableChapters(chapters: Chapter[]): Promise<Chapter[] | null> {
+  const exists = new Map<string, boolean>();
+  for (const chapter of chapters) {
+    if (!exists.has(chapter.file_path)) {
+      exists.set(chapter.file_path, await fileExists(chapter.file_path));
+    }
+  }
+  if (![...exists.values()].some(Boolean)) return null;
+  return chapters.map((c) => (exists.get(c.file_path) ? c : { ...c, missing: 1 }));
+}
+
+function emptyCounts(): ImportCounts {
+  return { added: 0, updated: 0, skipped: 0 };
+}
+
+// History that exists on both sides keeps the earliest start, the first
+// completion and the most time saved
+function mergeHistory(local: BookHistory, backup: BookHistory): HistoryAction["changes"] {
+  const changes: HistoryAction["changes"] = {};
+  if (backup.started_at && backup.started_at < local.started_at) {
+    changes.started_at = backup.started_at;
+  }
+  if (backup.completed_at && (!local.completed_at || backup.completed_at < local.completed_at)) {
+    changes.completed_at = backup.completed_at;
+  }
+  if ((backup.silence_trimmed_ms ?? 0) > local.silence_trimmed_ms) {
+    changes.silence_trimmed_ms = backup.silence_trimmed_ms;
+  }
+  return changes;
+}
+
+export async function planImport(backup: LibraryBackup): Promise<ImportPlan> {
+  const database = await getDatabase();
+  const local = await readTables(database);
+
+  const plan: ImportPlan = {
+    backup,
+    summary: {
+      books: emptyCounts(),
+      folderSources: emptyCounts(),
+      history: emptyCounts(),
+      sessions: emptyCounts(),
+    },
+    booksNotFound: 0,
+    folderSources: [],
+    books: [],
+    history: [],
+    sessions: [],
+    bookIds: new Map(),
+    chapterIds: new Map(),
+    historyIds: new Map(),
+  };
+  const { summary } = plan;
+
+  const localSourceUris = new Set(local.folder_sources.map((s) => s.uri));
+  for (const source of backup.folder_sources) {
+    if (localSourceUris.has(source.uri)) {
+      summary.folderSources.skipped++;
+    } else {
+      localSourceUris.add(source.uri);
+      plan.folderSources.push(source);
+      summary.folderSources.added++;
+    }
+  }
+
+  const bookMatches = matchBooks(backup.books, local.books);
+  const backupProgress = new Map(backup.progress.map((p) => [p.book_id, p]));
+  const localProgress = new Map(local.progress.map((p) => [p.book_id, p]));
+  const notFoundBookIds = new Set<number>();
+
+  for (const book of backup.books) {
+    const progress = backupProgress.get(book.id) ?? null;
+    const match = bookMatches.get(book.id);
+    if (!match) {
+      // Its history is still imported, as a book no longer in the library
+      const chapters = await findAvailableChapters(backup.chapters.filter((c) => c.book_id === book.id));
+      if (chapters) {
+        plan.books.push({ book, localId: null, chapters, progress });
+        summary.books.added++;
+      } else {
+        notFoundBookIds.add(book.id);
+        plan.booksNotFound++;
+      }
+      continue;
+    }
+
+    plan.bookIds.set(book.id, match.id);
+
+    const localChapters = local.chapters.filter((c) => c.book_id === match.id);
+    for (const chapter of backup.chapters.filter((c) => c.book_id === book.id)) {
+      const localChapter = findLocalChapter(chapter, localChapters);
+      if (localChapter) plan.chapterIds.set(chapter.id, localChapter.id);
+    }
+
+    const current = localProgress.get(match.id);
+    const isNewer =
+      progress !== null &&
+      plan.chapterIds.has(progress.current_chapter_id) &&
+      (!current || progress.last_played_at > current.last_played_at);
+    if (isNewer) {
+      plan.books.push({ book, localId: match.id, chapters: [], progress });
+      summary.books.updated++;
+    } else {
+      summary.books.skipped++;
+    }
+  }
+
+  const localHistoryByBook = new Map(
+    local.book_history.filter((h) => h.book_id !== null).map((h) => [h.book_id, h])
+  );
+  for (const history of backup.book_history) {
+    let match: BookHistory | undefined;
+    if (history.book_id !== null && !notFoundBookIds.has(history.book_id)) {
+      const localBookId = plan.bookIds.get(history.book_id);
+      match = localBookId !== undefined ? localHistoryByBook.get(localBookId) : undefined;
+    } else {
+      // Books that were removed from the library, or that aren't on this device,
+      // have only their title and start date left
+      match = local.book_history.find(
+        (h) =>
+          h.book_id === null &&
+          normalizeTitle(h.title) === normalizeTitle(history.title) &&
+          h.started_at === history.started_at
+      );
+    }
+
+    if (!match) {
+      plan.history.push({ history, localId: null, changes: {} });
+      summary.history.added++;
+      continue;
+    }
+
+    plan.historyIds.set(history.id, match.id);
+    const changes = mergeHistory(match, history);
+    if (Object.keys(changes).length > 0) {
+      plan.history.push({ history, localId: match.id, changes });
+      summary.history.updated++;
+    } else {
+      summary.history.skipped++;
+    }
+  }
+
+  // Sessions on both sides keep the longer time rather than adding up, so
+  // importing the same backup twice doesn't count anything twice
+  const localSessions = new Map(
+    local.listening_sessions.map((s) => [`${s.book_history_id}:${s.session_date}`, s])
+  );
+  for (const session of backup.listening_sessions) {
+    const localHistoryId = plan.historyIds.get(session.book_history_id);
+    const existing =
+      localHistoryId !== undefined ? localSessions.get(`${localHistoryId}:${session.session_date}`) : undefined;
+
+    if (!existing) {
+      plan.sessions.push(session);
+      summary.sessions.added++;
+    } else if (session.duration_ms > existing.duration_ms) {
+      plan.sessions.push(session);
+      summary.sessions.updated++;
+    } else {
+      summary.sessions.skipped++;
+    }
+  }
+
+  return plan;
+}
+
+async function addBook(
+  database: SQLite.SQLiteDatabase,
+  book: Book,
+  chapters: Chapter[],
+  chapterIds: Map<number, number>
+): Promise<number> {
+  const result = await database.runAsync(
+    `INSERT INTO books (title, author, cover_path, folder_path, total_duration_ms, playback_speed, series_name,
+       series_index, narrator, description, year, trim_silence, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      book.title,
+      book.author ?? null,
+      book.cover_path ?? null,
+      book.folder_path,
+      book.total_duration_ms ?? 0,
+      book.playback_speed ?? null,
+      book.series_name ?? null,
+      book.series_index ?? null,
+      book.narrator ?? null,
+      book.description ?? null,
+      book.year ?? null,
+      book.trim_silence ?? 0,
+      book.created_at,
+    ]
+  );
+  const bookId = result.lastInsertRowId;
+  await setSearchText(database, "title", bookId, bookId, book.title);
+  await setSearchText(database, "author", bookId, bookId, book.author ?? null);
+
+  for (const chapter of chapters) {
+    const chapterResult = await database.runAsync(
+      `INSERT INTO chapters (book_id, title, file_path, duration_ms, position, start_ms, end_ms, source_path, missing)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        bookId,
+        chapter.title,
+        chapter.file_path,
+        chapter.duration_ms ?? 0,
+        chapter.position,
+        chapter.start_ms ?? 0,
+        chapter.end_ms ?? null,
+        chapter.source_path ?? null,
+        chapter.missing ?? 0,
+      ]
+    );
+    chapterIds.set(chapter.id, chapterResult.lastInsertRowId);
+    await setSearchText(database, "chapter", bookId, chapterResult.lastInsertRowId, chapter.title);
+  }
+  return bookId;
+}
+
+// Writes the plan in one transaction; if anything fails nothing is imported
+export async function applyImport(plan: ImportPlan): Promise<void> {
+  const database = await getDatabase();
+  const bookIds = new Map(plan.bookIds);
+  const chapterIds = new Map(plan.chapterIds);
+  const historyIds = new Map(plan.historyIds);
+
+  await database.withTransactionAsync(async () => {
+    for (const source of plan.folderSources) {
+      await database.runAsync(
+        `INSERT OR IGNORE INTO folder_sources (uri, name, created_at) VALUES (?, ?, ?)`,
+        [source.uri, source.name, source.created_at]
+      );
+    }
+
+    for (const { book, localId, chapters, progress } of plan.books) {
+      const bookId = localId ?? (await addBook(database, book, chapters, chapterIds));
+      bookIds.set(book.id, bookId);
+
+      const chapterId = progress ? chapterIds.get(progress.current_chapter_id) : undefined;
+      if (progress && chapterId !== undefined) {
+        await database.runAsync(
+          `INSERT INTO progress (book_id, current_chapter_id, position_ms, last_played_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(book_id) DO UPDATE SET
+             current_chapter_id = excluded.current_chapter_id,
+             position_ms = excluded.position_ms,
+             last_played_at = excluded.last_played_at`,
+          [bookId, chapterId, progress.position_ms, progress.last_played_at]
+        );
+      }
+    }
+
+    for (const { history, localId, changes } of plan.history) {
+      if (localId !== null) {
+        await database.runAsync(
+          `UPDATE book_history SET
+             started_at = COALESCE(?, started_at),
+             completed_at = COALESCE(?, completed_at),
+             silence_trimmed_ms = COALESCE(?, silence_trimmed_ms)
+           WHERE id = ?`,
+          [changes.started_at ?? null, changes.completed_at ?? null, changes.silence_trimmed_ms ?? null, localId]
+        );
+        continue;
+      }
+
+      const bookId = history.book_id !== null ? bookIds.get(history.book_id) ?? null : null;
+      const result = await database.runAsync(
+        `INSERT INTO book_history (book_id, title, author, cover_path, total_duration_ms, started_at, completed_at,
+           is_in_library, silence_trimmed_ms)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          bookId,
+          history.title,
+          history.author ?? null,
+          history.cover_path ?? null,
+          history.total_duration_ms ?? 0,
+          history.started_at,
+          history.completed_at ?? null,
+          bookId !== null ? 1 : 0,
+          history.silence_trimmed_ms ?? 0,
+        ]
+      );
+      historyIds.set(history.id, result.lastInsertRowId);
+    }
+
+    for (const session of plan.sessions) {
+      const historyId = historyIds.get(session.book_history_id);
+      // The backup had a session without its history row
+      if (historyId === undefined) continue;
+
+      await database.runAsync(
+        `INSERT INTO listening_sessions (book_history_id, duration_ms, session_date)
+         VALUES (?, ?, ?)
+         ON CONFLICT(book_history_id, session_date) DO UPDATE SET
+           duration_ms = MAX(duration_ms, excluded.duration_ms)`,
+        [historyId, session.duration_ms, session.session_date]
+      );
+    }
+  });
+}
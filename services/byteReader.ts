@@ -0,0 +1,216 @@
+import * as FileSystem from "expo-file-system/legacy";
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP = new Uint8Array(256);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = BASE64_LOOKUP[clean.charCodeAt(i + 2)];
+    const d = BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes.subarray(0, byteIndex);
+}
+
+// Read a byte range from a file:// or SAF content:// URI
+export async function readBytes(uri: string, position: number, length: number): Promise<Uint8Array> {
+  if (length <= 0) return new Uint8Array(0);
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  return decodeBase64(base64);
+}
+
+// Longer reads are split up so no single base64 string gets large
+const READ_CHUNK_BYTES = 256 * 1024;
+
+// Read exactly `length` bytes, a chunk at a time. Returns null if the file ends
+// first, e.g. when a header declares more data than was written.
+export async function readBytesExact(uri: string, position: number, length: number): Promise<Uint8Array | null> {
+  const result = new Uint8Array(length);
+  let filled = 0;
+
+  while (filled < length) {
+    const chunkLength = Math.min(READ_CHUNK_BYTES, length - filled);
+    const chunk = await readBytes(uri, position + filled, chunkLength);
+    if (chunk.length < chunkLength) return null;
+    result.set(chunk, filled);
+    filled += chunkLength;
+  }
+
+  return result;
+}
+
+export type RangeReader = (position: number, length: number) => Promise<Uint8Array | null>;
+
+// Serve small reads below `end` from a window of the file, so walking a run of frame
+// headers doesn't cost a native call each. Returns null for anything past `end`.
+export function createWindowedReader(uri: string, end: number, windowBytes: number = 64 * 1024): RangeReader {
+  let windowStart = 0;
+  let window: Uint8Array = new Uint8Array(0);
+
+  return async (position, length) => {
+    if (position < 0 || position + length > end) return null;
+
+    const local = position - windowStart;
+    if (local >= 0 && local + length <= window.length) {
+      return window.subarray(local, local + length);
+    }
+    if (length > windowBytes) {
+      return await readBytesExact(uri, position, length);
+    }
+
+    const next = await readBytesExact(uri, position, Math.min(windowBytes, end - position));
+    if (!next) return null;
+    windowStart = position;
+    window = next;
+    return window.subarray(0, length);
+  };
+}
+
+export async function getFileSize(uri: string): Promise<number> {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists && !info.isDirectory ? info.size : 0;
+}
+
+export function readUint16BE(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+export function readUint24BE(data: Uint8Array, offset: number): number {
+  return (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+}
+
+export function readUint32BE(data: Uint8Array, offset: number): number {
+  return (
+    data[offset] * 0x1000000 +
+    ((data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3])
+  );
+}
+
+export function readUint64BE(data: Uint8Array, offset: number): number {
+  return readUint32BE(data, offset) * 0x100000000 + readUint32BE(data, offset + 4);
+}
+
+export function readUint16LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+export function readUint32LE(data: Uint8Array, offset: number): number {
+  return (
+    data[offset + 3] * 0x1000000 +
+    ((data[offset + 2] << 16) | (data[offset + 1] << 8) | data[offset])
+  );
+}
+
+export function readUint64LE(data: Uint8Array, offset: number): number {
+  return readUint32LE(data, offset + 4) * 0x100000000 + readUint32LE(data, offset);
+}
+
+// ID3v2 sizes use 7 bits per byte
+export function readSyncsafeInt(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] & 0x7f) * 0x200000 +
+    ((data[offset + 1] & 0x7f) << 14) +
+    ((data[offset + 2] & 0x7f) << 7) +
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+export function decodeLatin1(data: Uint8Array, start: number = 0, end: number = data.length): string {
+  let result = "";
+  for (let i = start; i < end; i++) {
+    result += String.fromCharCode(data[i]);
+  }
+  return result;
+}
+
+// Bytes 2-4 of a UTF-8 sequence are all 10xxxxxx
+function hasContinuationBytes(data: Uint8Array, start: number, count: number, end: number): boolean {
+  if (start + count > end) return false;
+  for (let i = start; i < start + count; i++) {
+    if ((data[i] & 0xc0) !== 0x80) return false;
+  }
+  return true;
+}
+
+export function decodeUtf8(data: Uint8Array, start: number = 0, end: number = data.length): string {
+  let result = "";
+  let i = start;
+
+  while (i < end) {
+    const byte = data[i++];
+    let codePoint: number;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if ((byte & 0xe0) === 0xc0 && hasContinuationBytes(data, i, 1, end)) {
+      codePoint = ((byte & 0x1f) << 6) | (data[i++] & 0x3f);
+    } else if ((byte & 0xf0) === 0xe0 && hasContinuationBytes(data, i, 2, end)) {
+      codePoint = ((byte & 0x0f) << 12) | ((data[i] & 0x3f) << 6) | (data[i + 1] & 0x3f);
+      i += 2;
+    } else if ((byte & 0xf8) === 0xf0 && hasContinuationBytes(data, i, 3, end)) {
+      codePoint =
+        ((byte & 0x07) << 18) | ((data[i] & 0x3f) << 12) | ((data[i + 1] & 0x3f) << 6) | (data[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      // Invalid sequence (often Latin-1 text) — substitute and move on
+      codePoint = 0xfffd;
+    }
+
+    result += String.fromCodePoint(codePoint);
+  }
+
+  return result;
+}
+
+export function decodeUtf16(
+  data: Uint8Array,
+  start: number = 0,
+  end: number = data.length,
+  bigEndian: boolean = false
+): string {
+  let littleEndian = !bigEndian;
+  let i = start;
+
+  // A byte order mark overrides the default
+  if (end - start >= 2) {
+    if (data[i] === 0xff && data[i + 1] === 0xfe) {
+      littleEndian = true;
+      i += 2;
+    } else if (data[i] === 0xfe && data[i + 1] === 0xff) {
+      littleEndian = false;
+      i += 2;
+    }
+  }
+
+  let result = "";
+  for (; i + 1 < end; i += 2) {
+    const unit = littleEndian ? data[i] | (data[i + 1] << 8) : (data[i] << 8) | data[i + 1];
+    result += String.fromCharCode(unit);
+  }
+  return result;
+}
+
+export function startsWithAscii(data: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > data.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (data[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
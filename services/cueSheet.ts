@@ -0,0 +1,151 @@
+import { readBytes, getFileSize, decodeLatin1, decodeUtf8 } from "./byteReader";
+import { EmbeddedChapter } from "./embeddedChapters";
+
+export interface CueTrack {
+  number: number;
+  title?: string;
+  performer?: string;
+  startMs: number;
+}
+
+export interface CueSheet {
+  title?: string;
+  performer?: string;
+  file: string;
+  tracks: CueTrack[];
+}
+
+// INDEX timestamps are mm:ss:ff with 75 frames per second (CD sectors)
+const FRAMES_PER_SECOND = 75;
+const MAX_CUE_BYTES = 1024 * 1024;
+
+// Read and parse a .cue file. Throws with a readable reason when the sheet is malformed.
+export async function readCueSheet(uri: string): Promise<CueSheet> {
+  const size = await getFileSize(uri);
+  if (size === 0) {
+    throw new Error("the file is empty");
+  }
+  if (size > MAX_CUE_BYTES) {
+    throw new Error("the file is too large to be a cue sheet");
+  }
+
+  const bytes = await readBytes(uri, 0, size);
+
+  // Cue sheets from older rippers are often Latin-1 rather than UTF-8
+  let text = decodeUtf8(bytes);
+  if (text.includes("\uFFFD")) {
+    text = decodeLatin1(bytes);
+  }
+  return parseCueSheet(text);
+}
+
+// Quoted values may contain spaces; unquoted ones end at the next space
+function parseValue(rest: string): string {
+  const quoted = rest.match(/^"([^"]*)"/);
+  if (quoted) return quoted[1].trim();
+  return rest.split(/\s+/)[0] ?? "";
+}
+
+function parseTimestamp(value: string): number | null {
+  const match = value.match(/^(\d+):(\d{1,2}):(\d{1,2})$/);
+  if (!match) return null;
+
+  const minutes = Number(match[1]);
+  const seconds = Number(match[2]);
+  const frames = Number(match[3]);
+  if (seconds >= 60 || frames >= FRAMES_PER_SECOND) return null;
+
+  return Math.round((minutes * 60 + seconds + frames / FRAMES_PER_SECOND) * 1000);
+}
+
+export function parseCueSheet(text: string): CueSheet {
+  let title: string | undefined;
+  let performer: string | undefined;
+  const files: string[] = [];
+  const tracks: CueTrack[] = [];
+  let track: CueTrack | null = null;
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const spaceIndex = line.indexOf(" ");
+    const command = (spaceIndex > 0 ? line.substring(0, spaceIndex) : line).toUpperCase();
+    const rest = spaceIndex > 0 ? line.substring(spaceIndex + 1).trim() : "";
+
+    switch (command) {
+      case "FILE":
+        files.push(parseValue(rest));
+        break;
+      case "TRACK": {
+        if (files.length === 0) {
+          throw new Error(`line ${i + 1}: TRACK appears before any FILE`);
+        }
+        const number = parseInt(rest, 10);
+        if (isNaN(number)) {
+          throw new Error(`line ${i + 1}: invalid track number`);
+        }
+        track = { number, startMs: -1 };
+        tracks.push(track);
+        break;
+      }
+      case "TITLE":
+        if (track) track.title = parseValue(rest) || undefined;
+        else title = parseValue(rest) || undefined;
+        break;
+      case "PERFORMER":
+        if (track) track.performer = parseValue(rest) || undefined;
+        else performer = parseValue(rest) || undefined;
+        break;
+      case "INDEX": {
+        if (!track) {
+          throw new Error(`line ${i + 1}: INDEX appears outside a TRACK`);
+        }
+        const [indexNumber, timestamp] = rest.split(/\s+/);
+        const startMs = parseTimestamp(timestamp ?? "");
+        if (startMs === null) {
+          throw new Error(`line ${i + 1}: invalid INDEX time "${timestamp ?? ""}"`);
+        }
+        // INDEX 00 marks the pregap; the track itself starts at INDEX 01
+        if (Number(indexNumber) === 1) {
+          track.startMs = startMs;
+        }
+        break;
+      }
+      default:
+        // REM, CATALOG, FLAGS, ISRC, SONGWRITER, PREGAP, POSTGAP and friends
+        break;
+    }
+  });
+
+  if (files.length === 0) {
+    throw new Error("no FILE entry");
+  }
+  if (files.length > 1) {
+    throw new Error("it refers to more than one audio file");
+  }
+  if (tracks.length === 0) {
+    throw new Error("no TRACK entries");
+  }
+
+  tracks.forEach((t, i) => {
+    if (t.startMs < 0) {
+      throw new Error(`track ${t.number} has no INDEX 01`);
+    }
+    if (i > 0 && t.startMs <= tracks[i - 1].startMs) {
+      throw new Error(`track ${t.number} starts before the previous track`);
+    }
+  });
+
+  return { title, performer, file: files[0], tracks };
+}
+
+// Chapters for the sheet's tracks. The last one runs to the end of the file.
+export function getCueChapters(sheet: CueSheet): EmbeddedChapter[] {
+  return sheet.tracks.map((track, i) => ({
+    title: track.title || `Chapter ${i + 1}`,
+    startMs: track.startMs,
+    endMs: i + 1 < sheet.tracks.length ? sheet.tracks[i + 1].startMs : null,
+  }));
+}
@@ -1,4 +1,6 @@
 import * as SQLite from "expo-sqlite";
+import { runMigrations } from "./migrations";
+import { toLocalDateString } from "./dates";
 
 export interface Book {
   id: number;
@@ -7,9 +9,27 @@ export interface Book {
   cover_path: string | null;
   folder_path: string;
   total_duration_ms: number;
+  // Null until the user changes the speed for this book; the global default applies
+  playback_speed: number | null;
+  series_name: string | null;
+  // Volume number within the series; fractional for novellas between volumes
+  series_index: number | null;
+  narrator: string | null;
+  description: string | null;
+  year: number | null;
+  // 1 when long pauses are played faster for this book
+  trim_silence: number;
+  // 1 until the next rescan looks for the series of a book imported before series support
+  series_backfill: number;
   created_at: string;
 }
 
+// Everything the metadata editor can change
+export type BookDetails = Pick<
+  Book,
+  "title" | "author" | "narrator" | "series_name" | "series_index" | "description" | "year" | "cover_path"
+>;
+
 export interface Chapter {
   id: number;
   book_id: number;
@@ -17,6 +37,13 @@ export interface Chapter {
   file_path: string;
   duration_ms: number;
   position: number;
+  // Embedded chapters share one file and play the range start_ms..end_ms of it
+  start_ms: number;
+  end_ms: number | null;
+  // Where the file was imported from, when it is played from a copy
+  source_path: string | null;
+  // Set by a rescan when the chapter's file is no longer in the book's folder
+  missing: number;
 }
 
 export interface Progress {
@@ -43,6 +70,8 @@ export interface BookHistory {
   started_at: string;
   completed_at: string | null;
   is_in_library: number;
+  // Listening time saved by playing through silent gaps faster
+  silence_trimmed_ms: number;
 }
 
 export interface ListeningSession {
@@ -52,102 +81,104 @@ export interface ListeningSession {
   session_date: string;
 }
 
-let db: SQLite.SQLiteDatabase | null = null;
-
-export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
-  if (db) return db;
-
-  db = await SQLite.openDatabaseAsync("audiobooks.db");
-  await initializeDatabase(db);
-  return db;
+export interface Bookmark {
+  id: number;
+  book_id: number;
+  chapter_id: number | null;
+  position_ms: number;
+  note: string | null;
+  created_at: string;
 }
 
-async function initializeDatabase(database: SQLite.SQLiteDatabase): Promise<void> {
-  await database.execAsync(`
-    PRAGMA journal_mode = WAL;
-    PRAGMA foreign_keys = ON;
+export type SearchHitKind = "title" | "author" | "chapter" | "bookmark";
 
-    CREATE TABLE IF NOT EXISTS books (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      title TEXT NOT NULL,
-      author TEXT,
-      cover_path TEXT,
-      folder_path TEXT NOT NULL UNIQUE,
-      total_duration_ms INTEGER DEFAULT 0,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
+// A run of matched text; `match` marks the parts that hit a search term
+export interface SearchSegment {
+  text: string;
+  match: boolean;
+}
 
-    CREATE TABLE IF NOT EXISTS chapters (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      book_id INTEGER NOT NULL,
-      title TEXT NOT NULL,
-      file_path TEXT NOT NULL UNIQUE,
-      duration_ms INTEGER DEFAULT 0,
-      position INTEGER NOT NULL,
-      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
-    );
+export interface SearchHit {
+  kind: SearchHitKind;
+  book_id: number;
+  book_title: string;
+  book_author: string | null;
+  cover_path: string | null;
+  // The chapter to open: the hit itself for chapters, the bookmark's chapter for bookmarks
+  chapter_id: number | null;
+  position_ms: number;
+  segments: SearchSegment[];
+}
 
-    CREATE TABLE IF NOT EXISTS progress (
-      book_id INTEGER PRIMARY KEY,
-      current_chapter_id INTEGER,
-      position_ms INTEGER DEFAULT 0,
-      last_played_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
-      FOREIGN KEY (current_chapter_id) REFERENCES chapters(id) ON DELETE SET NULL
-    );
+export interface BookmarkWithChapter extends Bookmark {
+  chapter_title: string | null;
+  chapter_position: number | null;
+}
 
-    CREATE TABLE IF NOT EXISTS folder_sources (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      uri TEXT NOT NULL UNIQUE,
-      name TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
+// Shared by every caller so nothing queries the database before migrations finish
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 
-    CREATE TABLE IF NOT EXISTS book_history (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      book_id INTEGER,
-      title TEXT NOT NULL,
-      author TEXT,
-      cover_path TEXT,
-      total_duration_ms INTEGER DEFAULT 0,
-      started_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      completed_at TEXT,
-      is_in_library INTEGER DEFAULT 1
-    );
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!dbPromise) {
+    dbPromise = openAndInitialize().catch((e) => {
+      console.error("Error opening database:", e);
+      // Let the next call try again
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+}
 
-    CREATE TABLE IF NOT EXISTS listening_sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      book_history_id INTEGER NOT NULL,
-      duration_ms INTEGER DEFAULT 0,
-      session_date TEXT NOT NULL,
-      FOREIGN KEY (book_history_id) REFERENCES book_history(id) ON DELETE CASCADE
-    );
+async function openAndInitialize(): Promise<SQLite.SQLiteDatabase> {
+  const database = await SQLite.openDatabaseAsync("audiobooks.db");
+  await initializeDatabase(database);
+  return database;
+}
 
-    CREATE UNIQUE INDEX IF NOT EXISTS idx_listening_sessions_unique
-      ON listening_sessions(book_history_id, session_date);
+async function initializeDatabase(database: SQLite.SQLiteDatabase): Promise<void> {
+  await database.execAsync(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA foreign_keys = ON;
   `);
 
-  // Backfill: create book_history rows for existing books that don't have one
-  await database.runAsync(`
-    INSERT OR IGNORE INTO book_history (book_id, title, author, cover_path, total_duration_ms, started_at, is_in_library)
-    SELECT b.id, b.title, b.author, b.cover_path, b.total_duration_ms, b.created_at, 1
-    FROM books b
-    WHERE NOT EXISTS (SELECT 1 FROM book_history bh WHERE bh.book_id = b.id)
-  `);
+  await runMigrations(database);
+}
+
+// Replace the index row for one source. Empty text just removes it.
+export async function setSearchText(
+  database: SQLite.SQLiteDatabase,
+  kind: SearchHitKind,
+  bookId: number,
+  refId: number,
+  text: string | null
+): Promise<void> {
+  await database.runAsync(`DELETE FROM library_search WHERE kind = ? AND ref_id = ?`, [kind, refId]);
+  if (text) {
+    await database.runAsync(
+      `INSERT INTO library_search (text, kind, book_id, ref_id) VALUES (?, ?, ?, ?)`,
+      [text, kind, bookId, refId]
+    );
+  }
 }
 
 export async function insertBook(
   title: string,
   folderPath: string,
   author?: string,
-  coverPath?: string
+  coverPath?: string,
+  seriesName?: string,
+  seriesIndex?: number | null
 ): Promise<number> {
   const database = await getDatabase();
   const result = await database.runAsync(
-    `INSERT INTO books (title, author, cover_path, folder_path) VALUES (?, ?, ?, ?)`,
-    [title, author ?? null, coverPath ?? null, folderPath]
+    `INSERT INTO books (title, author, cover_path, folder_path, series_name, series_index) VALUES (?, ?, ?, ?, ?, ?)`,
+    [title, author ?? null, coverPath ?? null, folderPath, seriesName ?? null, seriesIndex ?? null]
   );
-  return result.lastInsertRowId;
+  const bookId = result.lastInsertRowId;
+  await setSearchText(database, "title", bookId, bookId, title);
+  await setSearchText(database, "author", bookId, bookId, author ?? null);
+  return bookId;
 }
 
 export async function insertChapter(
@@ -155,16 +186,66 @@ export async function insertChapter(
   title: string,
   filePath: string,
   position: number,
-  durationMs: number = 0
+  durationMs: number = 0,
+  startMs: number = 0,
+  endMs: number | null = null,
+  sourcePath: string | null = null
 ): Promise<number> {
   const database = await getDatabase();
   const result = await database.runAsync(
-    `INSERT INTO chapters (book_id, title, file_path, position, duration_ms) VALUES (?, ?, ?, ?, ?)`,
-    [bookId, title, filePath, position, durationMs]
+    `INSERT INTO chapters (book_id, title, file_path, position, duration_ms, start_ms, end_ms, source_path)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [bookId, title, filePath, position, durationMs, startMs, endMs, sourcePath]
   );
+  await setSearchText(database, "chapter", bookId, result.lastInsertRowId, title);
   return result.lastInsertRowId;
 }
 
+// All chapters including missing ones, for rescans
+export async function getAllChaptersForBook(bookId: number): Promise<Chapter[]> {
+  const database = await getDatabase();
+  return await database.getAllAsync<Chapter>(
+    `SELECT * FROM chapters WHERE book_id = ? ORDER BY position, start_ms`,
+    [bookId]
+  );
+}
+
+// Chapters whose length has not been measured yet
+export async function getChaptersWithoutDuration(): Promise<Chapter[]> {
+  const database = await getDatabase();
+  return await database.getAllAsync<Chapter>(
+    `SELECT * FROM chapters
+     WHERE missing = 0 AND end_ms IS NULL AND COALESCE(duration_ms, 0) = 0
+     ORDER BY book_id, position`
+  );
+}
+
+export async function updateChapterDuration(
+  chapterId: number,
+  durationMs: number,
+  endMs: number | null = null
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `UPDATE chapters SET duration_ms = ?, end_ms = COALESCE(?, end_ms) WHERE id = ?`,
+    [durationMs, endMs, chapterId]
+  );
+}
+
+export async function setChapterMissing(chapterId: number, missing: boolean): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(`UPDATE chapters SET missing = ? WHERE id = ?`, [missing ? 1 : 0, chapterId]);
+}
+
+export async function updateChapterPositions(positions: { id: number; position: number }[]): Promise<void> {
+  const database = await getDatabase();
+  await database.withTransactionAsync(async () => {
+    for (const { id, position } of positions) {
+      await database.runAsync(`UPDATE chapters SET position = ? WHERE id = ?`, [position, id]);
+    }
+  });
+}
+
 export async function getAllBooks(): Promise<Book[]> {
   const database = await getDatabase();
   return await database.getAllAsync<Book>(`SELECT * FROM books ORDER BY title`);
@@ -176,7 +257,7 @@ export async function getBookWithChapters(bookId: number): Promise<{ book: Book;
   if (!book) return null;
 
   const chapters = await database.getAllAsync<Chapter>(
-    `SELECT * FROM chapters WHERE book_id = ? ORDER BY position`,
+    `SELECT * FROM chapters WHERE book_id = ? AND missing = 0 ORDER BY position`,
     [bookId]
   );
 
@@ -216,11 +297,14 @@ export async function getProgressWithCumulativePosition(bookId: number): Promise
     return { ...progress, cumulative_position_ms: progress.position_ms };
   }
 
-  // Sum durations of all chapters before the current one
+  // Sum durations of all chapters before the current one. Embedded chapters know
+  // their length from their offsets even before playback has measured the file.
   const result = await database.getFirstAsync<{ total_ms: number }>(
-    `SELECT COALESCE(SUM(duration_ms), 0) as total_ms
+    `SELECT COALESCE(SUM(
+       CASE WHEN end_ms IS NOT NULL THEN end_ms - start_ms ELSE duration_ms END
+     ), 0) as total_ms
      FROM chapters
-     WHERE book_id = ? AND position < ?`,
+     WHERE book_id = ? AND position < ? AND missing = 0`,
     [bookId, currentChapter.position]
   );
 
@@ -230,6 +314,137 @@ export async function getProgressWithCumulativePosition(bookId: number): Promise
   return { ...progress, cumulative_position_ms: cumulativePosition };
 }
 
+// Library listing: sorting and filtering happen in SQL so large libraries aren't
+// loaded whole and filtered in memory
+export type LibrarySort = "title" | "author" | "created_at" | "last_played" | "duration" | "remaining";
+export type LibraryStatusFilter = "all" | "not_started" | "in_progress" | "finished";
+
+export interface LibraryQuery {
+  sort: LibrarySort;
+  descending: boolean;
+  status: LibraryStatusFilter;
+  author: string | null;
+  folderSourceId: number | null;
+  // Series books come first, one series after another in volume order
+  groupBySeries: boolean;
+}
+
+export interface LibraryBook extends Book {
+  progress: ProgressWithCumulative | null;
+  completed_at: string | null;
+  remaining_ms: number;
+}
+
+interface LibraryRow extends Book {
+  progress_book_id: number | null;
+  current_chapter_id: number | null;
+  position_ms: number | null;
+  last_played_at: string | null;
+  cumulative_position_ms: number | null;
+  completed_at: string | null;
+  remaining_ms: number;
+}
+
+// Secondary keys keep the order stable; books without the sort value go last either way
+function getLibraryOrderBy(sort: LibrarySort, descending: boolean): string {
+  const direction = descending ? "DESC" : "ASC";
+  switch (sort) {
+    case "title":
+      return `title COLLATE NOCASE ${direction}`;
+    case "author":
+      return `author IS NULL, author COLLATE NOCASE ${direction}, title COLLATE NOCASE`;
+    case "created_at":
+      return `created_at ${direction}, title COLLATE NOCASE`;
+    case "last_played":
+      return `last_played_at IS NULL, last_played_at ${direction}, title COLLATE NOCASE`;
+    case "duration":
+      return `total_duration_ms = 0, total_duration_ms ${direction}, title COLLATE NOCASE`;
+    case "remaining":
+      return `total_duration_ms = 0, remaining_ms ${direction}, title COLLATE NOCASE`;
+  }
+}
+
+export async function getLibraryBooks(query: LibraryQuery): Promise<LibraryBook[]> {
+  const database = await getDatabase();
+
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  switch (query.status) {
+    case "not_started":
+      conditions.push(`progress_book_id IS NULL AND completed_at IS NULL`);
+      break;
+    case "in_progress":
+      conditions.push(`progress_book_id IS NOT NULL AND completed_at IS NULL`);
+      break;
+    case "finished":
+      conditions.push(`completed_at IS NOT NULL`);
+      break;
+  }
+  if (query.author !== null) {
+    conditions.push(`author = ?`);
+    params.push(query.author);
+  }
+  if (query.folderSourceId !== null) {
+    // Books are stored by the path they were scanned from, under the source's folder
+    conditions.push(`EXISTS (
+      SELECT 1 FROM folder_sources fs
+      WHERE fs.id = ? AND (folder_path = fs.uri OR substr(folder_path, 1, length(fs.uri) + 1) = fs.uri || '/')
+    )`);
+    params.push(query.folderSourceId);
+  }
+
+  const seriesOrder = query.groupBySeries
+    ? `series_name IS NULL, series_name COLLATE NOCASE, series_index IS NULL, series_index, `
+    : "";
+
+  // Cumulative position sums the chapters before the current one, as in
+  // getProgressWithCumulativePosition
+  const rows = await database.getAllAsync<LibraryRow>(
+    `WITH library AS (
+       SELECT b.*, p.book_id as progress_book_id, p.current_chapter_id, p.position_ms, p.last_played_at, bh.completed_at,
+              CASE WHEN p.book_id IS NULL THEN NULL ELSE p.position_ms + COALESCE((
+                SELECT SUM(CASE WHEN c.end_ms IS NOT NULL THEN c.end_ms - c.start_ms ELSE c.duration_ms END)
+                FROM chapters c
+                WHERE c.book_id = b.id AND c.missing = 0
+                  AND c.position < (SELECT position FROM chapters WHERE id = p.current_chapter_id)
+              ), 0) END as cumulative_position_ms
+       FROM books b
+       LEFT JOIN progress p ON p.book_id = b.id
+       LEFT JOIN book_history bh ON bh.book_id = b.id
+     )
+     SELECT *, MAX(total_duration_ms - COALESCE(cumulative_position_ms, 0), 0) as remaining_ms
+     FROM library
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY ${seriesOrder}${getLibraryOrderBy(query.sort, query.descending)}`,
+    params
+  );
+
+  return rows.map(
+    ({ progress_book_id, current_chapter_id, position_ms, last_played_at, cumulative_position_ms, ...book }) => ({
+      ...book,
+      progress:
+        progress_book_id !== null
+          ? {
+              book_id: progress_book_id,
+              current_chapter_id: current_chapter_id ?? 0,
+              position_ms: position_ms ?? 0,
+              last_played_at: last_played_at ?? "",
+              cumulative_position_ms: cumulative_position_ms ?? 0,
+            }
+          : null,
+    })
+  );
+}
+
+export async function getLibraryAuthors(): Promise<string[]> {
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<{ author: string }>(
+    `SELECT DISTINCT author FROM books WHERE author IS NOT NULL AND author != '' ORDER BY author COLLATE NOCASE`
+  );
+  return rows.map((row) => row.author);
+}
+
 export async function updateProgress(
   bookId: number,
   currentChapterId: number,
@@ -255,19 +470,113 @@ export async function updateBookDuration(bookId: number, totalDurationMs: number
   );
 }
 
+// Set the book's length to the sum of its chapters, once every chapter's length is known.
+// Returns the new total, or null when some chapters are still unmeasured.
+export async function recalculateBookDuration(bookId: number): Promise<number | null> {
+  const database = await getDatabase();
+  const result = await database.getFirstAsync<{ total_ms: number; unknown_count: number }>(
+    `SELECT
+       COALESCE(SUM(CASE WHEN end_ms IS NOT NULL THEN end_ms - start_ms ELSE duration_ms END), 0) as total_ms,
+       COALESCE(SUM(CASE WHEN end_ms IS NULL AND COALESCE(duration_ms, 0) = 0 THEN 1 ELSE 0 END), 0) as unknown_count
+     FROM chapters
+     WHERE book_id = ? AND missing = 0`,
+    [bookId]
+  );
+  if (!result || result.unknown_count > 0 || result.total_ms === 0) return null;
+
+  await database.runAsync(`UPDATE books SET total_duration_ms = ? WHERE id = ?`, [result.total_ms, bookId]);
+  await database.runAsync(
+    `UPDATE book_history SET total_duration_ms = ? WHERE book_id = ?`,
+    [result.total_ms, bookId]
+  );
+  return result.total_ms;
+}
+
 export async function deleteBook(bookId: number): Promise<void> {
   const database = await getDatabase();
   await database.runAsync(`DELETE FROM books WHERE id = ?`, [bookId]);
+  await database.runAsync(`DELETE FROM library_search WHERE book_id = ?`, [bookId]);
 }
 
 export async function updateBookTitle(bookId: number, title: string): Promise<void> {
   const database = await getDatabase();
   await database.runAsync(`UPDATE books SET title = ? WHERE id = ?`, [title, bookId]);
+  await database.runAsync(`UPDATE book_history SET title = ? WHERE book_id = ?`, [title, bookId]);
+  await setSearchText(database, "title", bookId, bookId, title);
 }
 
 export async function updateBookAuthor(bookId: number, author: string | null): Promise<void> {
   const database = await getDatabase();
   await database.runAsync(`UPDATE books SET author = ? WHERE id = ?`, [author, bookId]);
+  await database.runAsync(`UPDATE book_history SET author = ? WHERE book_id = ?`, [author, bookId]);
+  await setSearchText(database, "author", bookId, bookId, author);
+}
+
+// Saves the metadata editor. Rescans only touch chapters, so these edits are never
+// replaced by tag data. The analytics copy in book_history follows along.
+export async function updateBookDetails(bookId: number, details: BookDetails): Promise<void> {
+  const database = await getDatabase();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync(
+      `UPDATE books
+       SET title = ?, author = ?, narrator = ?, series_name = ?, series_index = ?, description = ?, year = ?,
+         cover_path = ?, series_backfill = 0
+       WHERE id = ?`,
+      [
+        details.title,
+        details.author,
+        details.narrator,
+        details.series_name,
+        details.series_name ? details.series_index : null,
+        details.description,
+        details.year,
+        details.cover_path,
+        bookId,
+      ]
+    );
+    await database.runAsync(
+      `UPDATE book_history SET title = ?, author = ?, cover_path = ? WHERE book_id = ?`,
+      [details.title, details.author, details.cover_path, bookId]
+    );
+    await setSearchText(database, "title", bookId, bookId, details.title);
+    await setSearchText(database, "author", bookId, bookId, details.author);
+  });
+}
+
+// The one-time series lookup for an older book; a null series still marks it as done
+export async function updateBookSeries(
+  bookId: number,
+  seriesName: string | null,
+  seriesIndex: number | null
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `UPDATE books SET series_name = ?, series_index = ?, series_backfill = 0 WHERE id = ?`,
+    [seriesName, seriesName ? seriesIndex : null, bookId]
+  );
+}
+
+// The volume after this one in its series, for offering it when a book is finished
+export async function getNextInSeries(bookId: number): Promise<Book | null> {
+  const database = await getDatabase();
+  return await database.getFirstAsync<Book>(
+    `SELECT next.* FROM books b
+     JOIN books next ON next.series_name = b.series_name COLLATE NOCASE AND next.series_index > b.series_index
+     WHERE b.id = ?
+     ORDER BY next.series_index
+     LIMIT 1`,
+    [bookId]
+  );
+}
+
+export async function updateBookPlaybackSpeed(bookId: number, speed: number | null): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(`UPDATE books SET playback_speed = ? WHERE id = ?`, [speed, bookId]);
+}
+
+export async function updateBookTrimSilence(bookId: number, enabled: boolean): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(`UPDATE books SET trim_silence = ? WHERE id = ?`, [enabled ? 1 : 0, bookId]);
 }
 
 export async function resetBookProgress(bookId: number): Promise<void> {
@@ -275,6 +584,11 @@ export async function resetBookProgress(bookId: number): Promise<void> {
   await database.runAsync(`DELETE FROM progress WHERE book_id = ?`, [bookId]);
 }
 
+export async function getBookByFolderPath(folderPath: string): Promise<Book | null> {
+  const database = await getDatabase();
+  return await database.getFirstAsync<Book>(`SELECT * FROM books WHERE folder_path = ?`, [folderPath]);
+}
+
 export async function bookExistsAtPath(folderPath: string): Promise<boolean> {
   const database = await getDatabase();
   const result = await database.getFirstAsync<{ count: number }>(
@@ -343,6 +657,7 @@ export async function getOrCreateBookHistory(bookId: number): Promise<BookHistor
     started_at: book.created_at,
     completed_at: null,
     is_in_library: 1,
+    silence_trimmed_ms: 0,
   };
 }
 
@@ -370,6 +685,14 @@ export async function updateBookHistoryDuration(bookHistoryId: number, totalDura
   );
 }
 
+export async function addSilenceTrimmedTime(bookHistoryId: number, savedMs: number): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `UPDATE book_history SET silence_trimmed_ms = silence_trimmed_ms + ? WHERE id = ?`,
+    [savedMs, bookHistoryId]
+  );
+}
+
 export async function getBookHistoryByBookId(bookId: number): Promise<BookHistory | null> {
   const database = await getDatabase();
   return await database.getFirstAsync<BookHistory>(
@@ -395,7 +718,8 @@ export async function getAllBookHistory(): Promise<BookHistory[]> {
 
 export async function upsertListeningSession(bookHistoryId: number, additionalMs: number): Promise<void> {
   const database = await getDatabase();
-  const today = new Date().toISOString().split("T")[0];
+  // Local so a late-night session counts toward the day the user is having
+  const today = toLocalDateString(new Date());
   await database.runAsync(
     `INSERT INTO listening_sessions (book_history_id, duration_ms, session_date)
      VALUES (?, ?, ?)
@@ -422,13 +746,14 @@ export async function getTotalListeningTime(): Promise<number> {
   return result?.total ?? 0;
 }
 
+// completed_at is stored in UTC; months and years follow the device's clock
 export async function getCompletionsPerMonth(year?: number): Promise<{ month: string; count: number }[]> {
   const database = await getDatabase();
-  let query = `SELECT strftime('%Y-%m', completed_at) as month, COUNT(*) as count
+  let query = `SELECT strftime('%Y-%m', completed_at, 'localtime') as month, COUNT(*) as count
                FROM book_history WHERE completed_at IS NOT NULL`;
   const params: number[] = [];
   if (year) {
-    query += ` AND strftime('%Y', completed_at) = ?`;
+    query += ` AND strftime('%Y', completed_at, 'localtime') = ?`;
     params.push(year);
   }
   query += ` GROUP BY month ORDER BY month`;
@@ -457,13 +782,201 @@ export async function getFilteredBookHistory(year?: number, month?: number): Pro
   let query = `SELECT * FROM book_history WHERE 1=1`;
   const params: string[] = [];
   if (year) {
-    query += ` AND strftime('%Y', started_at) = ?`;
+    query += ` AND strftime('%Y', started_at, 'localtime') = ?`;
     params.push(String(year));
   }
   if (month) {
-    query += ` AND strftime('%m', started_at) = ?`;
+    query += ` AND strftime('%m', started_at, 'localtime') = ?`;
     params.push(String(month).padStart(2, "0"));
   }
   query += ` ORDER BY started_at DESC`;
   return await database.getAllAsync<BookHistory>(query, params);
 }
+
+// Inclusive YYYY-MM-DD bounds; null leaves that end open
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface BookHistoryInRange extends BookHistory {
+  // Listening time within the range
+  listening_ms: number;
+}
+
+export interface DailyListening {
+  session_date: string;
+  book_history_id: number;
+  title: string;
+  author: string | null;
+  cover_path: string | null;
+  is_in_library: number;
+  duration_ms: number;
+}
+
+// Books that were being listened to at some point in the range: started by its
+// end and not finished before its start. The range is in local days.
+export async function getBookHistoryInRange(
+  range: DateRange,
+  includeRemoved: boolean
+): Promise<BookHistoryInRange[]> {
+  const database = await getDatabase();
+  const from = range.from ?? "0000-01-01";
+  const to = range.to ?? "9999-12-31";
+  return await database.getAllAsync<BookHistoryInRange>(
+    `SELECT bh.*, COALESCE(SUM(ls.duration_ms), 0) as listening_ms
+     FROM book_history bh
+     LEFT JOIN listening_sessions ls
+       ON ls.book_history_id = bh.id AND ls.session_date BETWEEN ? AND ?
+     WHERE date(bh.started_at, 'localtime') <= ?
+       AND (bh.completed_at IS NULL OR date(bh.completed_at, 'localtime') >= ?)
+       AND (? = 1 OR bh.is_in_library = 1)
+     GROUP BY bh.id
+     ORDER BY bh.started_at`,
+    [from, to, to, from, includeRemoved ? 1 : 0]
+  );
+}
+
+// One row per book per day; pass the same date as both ends for a single day
+export async function getDailyListeningInRange(range: DateRange, includeRemoved: boolean): Promise<DailyListening[]> {
+  const database = await getDatabase();
+  return await database.getAllAsync<DailyListening>(
+    `SELECT ls.session_date, ls.book_history_id, bh.title, bh.author, bh.cover_path, bh.is_in_library, ls.duration_ms
+     FROM listening_sessions ls
+     JOIN book_history bh ON bh.id = ls.book_history_id
+     WHERE ls.session_date BETWEEN ? AND ?
+       AND (? = 1 OR bh.is_in_library = 1)
+       AND ls.duration_ms > 0
+     ORDER BY ls.session_date, ls.duration_ms DESC`,
+    [range.from ?? "0000-01-01", range.to ?? "9999-12-31", includeRemoved ? 1 : 0]
+  );
+}
+
+// Bookmark management
+export async function addBookmark(
+  bookId: number,
+  chapterId: number,
+  positionMs: number,
+  note?: string
+): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.runAsync(
+    `INSERT INTO bookmarks (book_id, chapter_id, position_ms, note) VALUES (?, ?, ?, ?)`,
+    [bookId, chapterId, positionMs, note ?? null]
+  );
+  await setSearchText(database, "bookmark", bookId, result.lastInsertRowId, note ?? null);
+  return result.lastInsertRowId;
+}
+
+export async function getBookmarksForBook(bookId: number): Promise<BookmarkWithChapter[]> {
+  const database = await getDatabase();
+  return await database.getAllAsync<BookmarkWithChapter>(
+    `SELECT bm.*, c.title as chapter_title, c.position as chapter_position
+     FROM bookmarks bm
+     LEFT JOIN chapters c ON c.id = bm.chapter_id
+     WHERE bm.book_id = ?
+     ORDER BY c.position IS NULL, c.position, bm.position_ms`,
+    [bookId]
+  );
+}
+
+export async function updateBookmarkNote(bookmarkId: number, note: string | null): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(`UPDATE bookmarks SET note = ? WHERE id = ?`, [note, bookmarkId]);
+  const bookmark = await database.getFirstAsync<{ book_id: number }>(
+    `SELECT book_id FROM bookmarks WHERE id = ?`,
+    [bookmarkId]
+  );
+  if (bookmark) {
+    await setSearchText(database, "bookmark", bookmark.book_id, bookmarkId, note);
+  }
+}
+
+export async function deleteBookmark(bookmarkId: number): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(`DELETE FROM bookmarks WHERE id = ?`, [bookmarkId]);
+  await database.runAsync(`DELETE FROM library_search WHERE kind = 'bookmark' AND ref_id = ?`, [bookmarkId]);
+}
+
+// Library search
+const SEARCH_MATCH_START = "\u0002";
+const SEARCH_MATCH_END = "\u0003";
+const SEARCH_RESULT_LIMIT = 100;
+
+// Every word must match, and the last one may be partly typed, so each becomes a
+// quoted prefix term. Quoting keeps FTS5 syntax characters in the input literal.
+function buildSearchQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ""))
+    .filter((word) => /[0-9A-Za-z\u00C0-\uFFFF]/.test(word))
+    .map((word) => `"${word}"*`);
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+function splitHighlighted(highlighted: string): SearchSegment[] {
+  const segments: SearchSegment[] = [];
+  for (const part of highlighted.split(SEARCH_MATCH_START)) {
+    const end = part.indexOf(SEARCH_MATCH_END);
+    if (end >= 0) {
+      segments.push({ text: part.substring(0, end), match: true });
+      if (end + 1 < part.length) segments.push({ text: part.substring(end + 1), match: false });
+    } else if (part) {
+      segments.push({ text: part, match: false });
+    }
+  }
+  return segments;
+}
+
+export async function searchLibrary(input: string): Promise<SearchHit[]> {
+  const query = buildSearchQuery(input);
+  if (!query) return [];
+
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<Omit<SearchHit, "segments"> & { highlighted: string }>(
+    `SELECT s.kind, b.id as book_id, b.title as book_title, b.author as book_author, b.cover_path,
+            CASE s.kind WHEN 'chapter' THEN c.id WHEN 'bookmark' THEN bm.chapter_id END as chapter_id,
+            COALESCE(bm.position_ms, 0) as position_ms,
+            snippet(library_search, 0, ?, ?, '…', 16) as highlighted
+     FROM library_search s
+     JOIN books b ON b.id = s.book_id
+     LEFT JOIN chapters c ON s.kind = 'chapter' AND c.id = s.ref_id
+     LEFT JOIN bookmarks bm ON s.kind = 'bookmark' AND bm.id = s.ref_id
+     WHERE library_search MATCH ? AND (s.kind != 'chapter' OR c.missing = 0)
+     ORDER BY rank
+     LIMIT ?`,
+    [SEARCH_MATCH_START, SEARCH_MATCH_END, query, SEARCH_RESULT_LIMIT]
+  );
+
+  return rows.map(({ highlighted, ...hit }) => ({ ...hit, segments: splitHighlighted(highlighted) }));
+}
+
+// Settings (simple key/value store)
+export async function getSetting(key: string): Promise<string | null> {
+  const database = await getDatabase();
+  const result = await database.getFirstAsync<{ value: string }>(
+    `SELECT value FROM settings WHERE key = ?`,
+    [key]
+  );
+  return result?.value ?? null;
+}
+
+export async function getAllSettings(): Promise<Record<string, string>> {
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<{ key: string; value: string }>(`SELECT key, value FROM settings`);
+  return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+}
+
+export async function setSetting(key: string, value: string): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `INSERT INTO settings (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    [key, value]
+  );
+}
+
+export async function deleteSetting(key: string): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(`DELETE FROM settings WHERE key = ?`, [key]);
+}
@@ -0,0 +1,18 @@
+// YYYY-MM-DD in the device's time zone, the day listening sessions are recorded under
+export function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone suffix
+export function parseDatabaseTimestamp(value: string): number | null {
+  const time = Date.parse(`${value.replace(" ", "T")}Z`);
+  return isNaN(time) ? null : time;
+}
+
+// The local day a stored timestamp falls on
+export function timestampToLocalDate(value: string): string | null {
+  const time = parseDatabaseTimestamp(value);
+  return time !== null ? toLocalDateString(new Date(time)) : null;
+}
@@ -0,0 +1,302 @@
+import {
+  readBytesExact,
+  getFileSize,
+  readUint16BE,
+  readUint32BE,
+  readUint64BE,
+  decodeLatin1,
+  decodeUtf8,
+  decodeUtf16,
+} from "./byteReader";
+import {
+  Mp4Box,
+  findBoxInFile,
+  listBoxesInFile,
+  readBoxInFile,
+  findChildBox,
+  getChildBoxes,
+  getBoxContent,
+  parseTimescaleAndDuration,
+  readMp4DurationMs,
+} from "./mp4";
+import { readId3v2Tag, parseId3Frames, decodeId3Text } from "./metadata";
+
+export interface EmbeddedChapter {
+  title: string;
+  startMs: number;
+  endMs: number | null;
+}
+
+// Nero chapter timestamps are in 100-nanosecond units
+const CHPL_UNITS_PER_MS = 10000;
+
+// Read chapter markers stored inside a single audio file. Returns an empty list when
+// the file has fewer than two chapters, since one chapter is no better than none.
+export async function readEmbeddedChapters(uri: string, filename: string): Promise<EmbeddedChapter[]> {
+  const lower = filename.toLowerCase();
+
+  try {
+    const fileSize = await getFileSize(uri);
+    if (fileSize === 0) return [];
+
+    let chapters: EmbeddedChapter[] = [];
+    if (lower.endsWith(".m4b") || lower.endsWith(".m4a")) {
+      chapters = await readMp4Chapters(uri, fileSize);
+    } else if (lower.endsWith(".mp3")) {
+      chapters = await readId3Chapters(uri, fileSize);
+    }
+
+    return chapters.length >= 2 ? chapters : [];
+  } catch (error) {
+    console.warn(`Error reading chapters from ${filename}:`, error);
+    return [];
+  }
+}
+
+// Sort by start time and make chapters contiguous: each one ends where the next begins
+function finalizeChapters(chapters: EmbeddedChapter[], totalDurationMs: number | null): EmbeddedChapter[] {
+  const sorted = chapters
+    .filter((c) => totalDurationMs === null || c.startMs < totalDurationMs)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  return sorted.map((chapter, i) => {
+    const next = sorted[i + 1];
+    let endMs = next ? next.startMs : chapter.endMs;
+    if (!next && (endMs === null || endMs <= chapter.startMs)) {
+      endMs = totalDurationMs;
+    }
+    return {
+      title: chapter.title || `Chapter ${i + 1}`,
+      startMs: chapter.startMs,
+      endMs,
+    };
+  });
+}
+
+// MP4 / M4B
+
+async function readMp4Chapters(uri: string, fileSize: number): Promise<EmbeddedChapter[]> {
+  const moov = await findBoxInFile(uri, fileSize, ["moov"]);
+  if (!moov) return [];
+
+  const totalDurationMs = await readMp4DurationMs(uri, fileSize);
+
+  // QuickTime chapter tracks are what Apple and Audible files use; Nero chpl is the fallback
+  const quickTimeChapters = await readQuickTimeChapters(uri, moov);
+  if (quickTimeChapters.length > 0) {
+    return finalizeChapters(quickTimeChapters, totalDurationMs);
+  }
+
+  const neroChapters = await readNeroChapters(uri, fileSize);
+  return finalizeChapters(neroChapters, totalDurationMs);
+}
+
+async function readNeroChapters(uri: string, fileSize: number): Promise<EmbeddedChapter[]> {
+  const chpl = await findBoxInFile(uri, fileSize, ["moov", "udta", "chpl"]);
+  if (!chpl) return [];
+
+  const data = await readBoxInFile(uri, chpl);
+  if (!data) return [];
+
+  const content = getBoxContent(data, chpl, chpl.start);
+  if (content.length < 5) return [];
+
+  // version(1) flags(3), a reserved uint32 in version 1, then a one-byte count
+  let offset = content[0] === 1 ? 8 : 4;
+  const count = content[offset++];
+
+  const chapters: EmbeddedChapter[] = [];
+  for (let i = 0; i < count && offset + 9 <= content.length; i++) {
+    const start = readUint64BE(content, offset);
+    const titleLength = content[offset + 8];
+    offset += 9;
+    const title = decodeUtf8(content, offset, Math.min(offset + titleLength, content.length)).trim();
+    offset += titleLength;
+    chapters.push({ title, startMs: Math.round(start / CHPL_UNITS_PER_MS), endMs: null });
+  }
+  return chapters;
+}
+
+async function readQuickTimeChapters(uri: string, moov: Mp4Box): Promise<EmbeddedChapter[]> {
+  const traks = (await listBoxesInFile(uri, moov.start + moov.headerSize, moov.start + moov.size))
+    .filter((b) => b.type === "trak");
+
+  // Audio tracks can be several megabytes, so only read the small tkhd/tref boxes first
+  const chapterTrackIds: number[] = [];
+  const trakById = new Map<number, Mp4Box>();
+  for (const trak of traks) {
+    const children = await listBoxesInFile(uri, trak.start + trak.headerSize, trak.start + trak.size);
+
+    const tkhd = children.find((b) => b.type === "tkhd");
+    const tkhdData = tkhd && (await readBoxInFile(uri, tkhd));
+    if (tkhd && tkhdData) {
+      const content = getBoxContent(tkhdData, tkhd, tkhd.start);
+      const offset = content[0] === 1 ? 20 : 12;
+      if (content.length >= offset + 4) {
+        trakById.set(readUint32BE(content, offset), trak);
+      }
+    }
+
+    const tref = children.find((b) => b.type === "tref");
+    const trefData = tref && (await readBoxInFile(uri, tref));
+    if (tref && trefData) {
+      const chap = findChildBox(trefData, tref, ["chap"], tref.start);
+      if (chap) {
+        const ids = getBoxContent(trefData, chap, tref.start);
+        for (let i = 0; i + 4 <= ids.length; i += 4) {
+          chapterTrackIds.push(readUint32BE(ids, i));
+        }
+      }
+    }
+  }
+
+  for (const trackId of chapterTrackIds) {
+    const trakBox = trakById.get(trackId);
+    if (!trakBox) continue;
+
+    const trak = await readBoxInFile(uri, trakBox);
+    if (!trak) continue;
+    const chapters = await readTextTrackSamples(uri, trak, trakBox);
+    if (chapters.length > 0) return chapters;
+  }
+
+  return [];
+}
+
+async function readTextTrackSamples(uri: string, trak: Uint8Array, trakBox: Mp4Box): Promise<EmbeddedChapter[]> {
+  const base = trakBox.start;
+  const mdhd = findChildBox(trak, trakBox, ["mdia", "mdhd"], base);
+  const stbl = findChildBox(trak, trakBox, ["mdia", "minf", "stbl"], base);
+  if (!mdhd || !stbl) return [];
+
+  const timing = parseTimescaleAndDuration(getBoxContent(trak, mdhd, base));
+  if (!timing || timing.timescale === 0) return [];
+
+  const tables = new Map(getChildBoxes(trak, stbl, base).map((b) => [b.type, getBoxContent(trak, b, base)]));
+  const stts = tables.get("stts");
+  const stsz = tables.get("stsz");
+  const stsc = tables.get("stsc");
+  const chunkOffsets = tables.get("stco") ?? tables.get("co64");
+  const is64BitOffsets = !tables.has("stco");
+  if (!stts || !stsz || !stsc || !chunkOffsets) return [];
+
+  // Sample start times (stts: runs of sample_count x sample_delta)
+  const startTimes: number[] = [];
+  let time = 0;
+  const sttsCount = readUint32BE(stts, 4);
+  for (let i = 0; i < sttsCount && 8 + i * 8 + 8 <= stts.length; i++) {
+    const sampleCount = readUint32BE(stts, 8 + i * 8);
+    const delta = readUint32BE(stts, 12 + i * 8);
+    for (let s = 0; s < sampleCount; s++) {
+      startTimes.push(time);
+      time += delta;
+    }
+  }
+
+  // Sample sizes (stsz: fixed size or one entry per sample)
+  const fixedSize = readUint32BE(stsz, 4);
+  const sampleCount = readUint32BE(stsz, 8);
+  const sizes: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(fixedSize !== 0 ? fixedSize : readUint32BE(stsz, 12 + i * 4));
+  }
+
+  // Sample file offsets from the chunk table (stsc maps chunks to samples per chunk)
+  const chunkCount = readUint32BE(chunkOffsets, 4);
+  const stscCount = readUint32BE(stsc, 4);
+  const offsets: number[] = [];
+  for (let chunk = 1; chunk <= chunkCount && offsets.length < sampleCount; chunk++) {
+    let samplesPerChunk = 1;
+    for (let i = 0; i < stscCount; i++) {
+      if (readUint32BE(stsc, 8 + i * 12) <= chunk) {
+        samplesPerChunk = readUint32BE(stsc, 12 + i * 12);
+      }
+    }
+
+    let offset = is64BitOffsets
+      ? readUint64BE(chunkOffsets, 8 + (chunk - 1) * 8)
+      : readUint32BE(chunkOffsets, 8 + (chunk - 1) * 4);
+    for (let s = 0; s < samplesPerChunk && offsets.length < sampleCount; s++) {
+      offsets.push(offset);
+      offset += sizes[offsets.length - 1];
+    }
+  }
+
+  // Each text sample is a 16-bit length followed by the title
+  const chapters: EmbeddedChapter[] = [];
+  for (let i = 0; i < offsets.length && i < startTimes.length; i++) {
+    const sample = await readBytesExact(uri, offsets[i], sizes[i]);
+    if (!sample) return [];
+    let title = "";
+    if (sample.length >= 2) {
+      const length = Math.min(readUint16BE(sample, 0), sample.length - 2);
+      const hasBom = length >= 2 && (sample[2] === 0xfe || sample[2] === 0xff);
+      title = (hasBom ? decodeUtf16(sample, 2, 2 + length) : decodeUtf8(sample, 2, 2 + length)).trim();
+    }
+    chapters.push({
+      title,
+      startMs: Math.round((startTimes[i] / timing.timescale) * 1000),
+      endMs: null,
+    });
+  }
+  return chapters;
+}
+
+// MP3 (ID3v2 CHAP / CTOC frames)
+
+function readNullTerminatedLatin1(data: Uint8Array, start: number): { text: string; next: number } {
+  let end = start;
+  while (end < data.length && data[end] !== 0) end++;
+  return { text: decodeLatin1(data, start, end), next: end + 1 };
+}
+
+async function readId3Chapters(uri: string, fileSize: number): Promise<EmbeddedChapter[]> {
+  const tag = await readId3v2Tag(uri, fileSize, ["CHAP", "CTOC"]);
+  if (!tag || tag.version < 3) return [];
+
+  const chaptersById = new Map<string, EmbeddedChapter>();
+  let tableOfContents: string[] | null = null;
+
+  for (const frame of tag.frames) {
+    if (frame.id === "CHAP") {
+      const { text: elementId, next } = readNullTerminatedLatin1(frame.data, 0);
+      if (next + 16 > frame.data.length) continue;
+
+      const startMs = readUint32BE(frame.data, next);
+      const endMs = readUint32BE(frame.data, next + 4);
+      const subFrames = parseId3Frames(frame.data, next + 16, frame.data.length, tag.version);
+      const titleFrame = subFrames.find((f) => f.id === "TIT2");
+
+      chaptersById.set(elementId, {
+        title: titleFrame ? decodeId3Text(titleFrame.data) ?? "" : "",
+        startMs,
+        endMs: endMs > startMs && endMs !== 0xffffffff ? endMs : null,
+      });
+    } else if (frame.id === "CTOC" && tableOfContents === null) {
+      const { next } = readNullTerminatedLatin1(frame.data, 0);
+      const flags = frame.data[next];
+      const entryCount = frame.data[next + 1];
+      // Only the top-level table of contents defines the book's chapter order
+      if (!(flags & 0x02)) continue;
+
+      const entries: string[] = [];
+      let offset = next + 2;
+      for (let i = 0; i < entryCount && offset < frame.data.length; i++) {
+        const entry = readNullTerminatedLatin1(frame.data, offset);
+        entries.push(entry.text);
+        offset = entry.next;
+      }
+      tableOfContents = entries;
+    }
+  }
+
+  const ordered = tableOfContents
+    ? tableOfContents.map((id) => chaptersById.get(id)).filter((c): c is EmbeddedChapter => !!c)
+    : Array.from(chaptersById.values());
+
+  const lastEnd = ordered.reduce<number | null>(
+    (max, c) => (c.endMs !== null && (max === null || c.endMs > max) ? c.endMs : max),
+    null
+  );
+  return finalizeChapters(ordered, lastEnd);
+}
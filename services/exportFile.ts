@@ -0,0 +1,27 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { StorageAccessFramework } from "expo-file-system/legacy";
+import { Platform, Share } from "react-native";
+
+// Hands a generated file to the user: the share sheet on iOS, a folder they
+// pick on Android (whose share sheet only takes text). Returns false if they cancel.
+export async function exportFile(
+  baseName: string,
+  extension: string,
+  mimeType: string,
+  contents: string
+): Promise<boolean> {
+  if (Platform.OS === "android" && StorageAccessFramework) {
+    const permissions = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+    if (!permissions.granted) return false;
+
+    // The extension comes from the MIME type
+    const fileUri = await StorageAccessFramework.createFileAsync(permissions.directoryUri, baseName, mimeType);
+    await FileSystem.writeAsStringAsync(fileUri, contents);
+    return true;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${baseName}.${extension}`;
+  await FileSystem.writeAsStringAsync(fileUri, contents);
+  const result = await Share.share({ url: fileUri, title: baseName });
+  return result.action !== Share.dismissedAction;
+}
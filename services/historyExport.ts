@@ -0,0 +1,117 @@
+import { DateRange, getBookHistoryInRange, getDailyListeningInRange } from "./database";
+import { exportFile } from "./exportFile";
+import { timestampToLocalDate } from "./dates";
+
+export type HistoryExportFormat = "history" | "goodreads" | "daily";
+
+type CsvValue = string | number | null;
+
+export interface HistoryExport {
+  fileName: string;
+  csv: string;
+  rowCount: number;
+}
+
+const FILE_NAMES: Record<HistoryExportFormat, string> = {
+  history: "listening-history",
+  goodreads: "goodreads-import",
+  daily: "daily-listening",
+};
+
+function escapeCsv(value: CsvValue): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+// Timestamps are stored in UTC; the export uses the local days the heatmap shows
+function toDate(timestamp: string | null): string | null {
+  return timestamp ? timestampToLocalDate(timestamp) : null;
+}
+
+function toMinutes(ms: number): number {
+  return Math.round(ms / 60000);
+}
+
+function describeRange(range: DateRange): string {
+  if (!range.from && !range.to) return "all-time";
+  return `${range.from ?? "start"}-to-${range.to ?? "today"}`;
+}
+
+async function buildHistoryCsv(range: DateRange, includeRemoved: boolean): Promise<[string, number]> {
+  const history = await getBookHistoryInRange(range, includeRemoved);
+  const rows = history.map((bh) => [
+    bh.title,
+    bh.author,
+    toDate(bh.started_at),
+    toDate(bh.completed_at),
+    toMinutes(bh.listening_ms),
+    bh.is_in_library ? "Yes" : "No",
+  ]);
+  const header = ["Title", "Author", "Started", "Completed", "Listening Minutes", "In Library"];
+  return [toCsv(header, rows), rows.length];
+}
+
+// The columns Goodreads' importer reads; StoryGraph takes the same file
+async function buildGoodreadsCsv(range: DateRange, includeRemoved: boolean): Promise<[string, number]> {
+  const history = await getBookHistoryInRange(range, includeRemoved);
+  const rows = history.map((bh) => {
+    const shelf = bh.completed_at ? "read" : "currently-reading";
+    return [
+      bh.title,
+      bh.author,
+      null,
+      0,
+      "Audiobook",
+      toDate(bh.completed_at)?.replace(/-/g, "/") ?? null,
+      toDate(bh.started_at)?.replace(/-/g, "/") ?? null,
+      shelf,
+      shelf,
+    ];
+  });
+  const header = [
+    "Title",
+    "Author",
+    "ISBN",
+    "My Rating",
+    "Binding",
+    "Date Read",
+    "Date Added",
+    "Bookshelves",
+    "Exclusive Shelf",
+  ];
+  return [toCsv(header, rows), rows.length];
+}
+
+// One row per book per day
+async function buildDailyCsv(range: DateRange, includeRemoved: boolean): Promise<[string, number]> {
+  const days = await getDailyListeningInRange(range, includeRemoved);
+  const rows = days.map((day) => [
+    day.session_date,
+    day.title,
+    day.author,
+    toMinutes(day.duration_ms),
+    day.is_in_library ? "Yes" : "No",
+  ]);
+  const header = ["Date", "Title", "Author", "Listening Minutes", "In Library"];
+  return [toCsv(header, rows), rows.length];
+}
+
+export async function buildHistoryExport(
+  format: HistoryExportFormat,
+  range: DateRange,
+  includeRemoved: boolean
+): Promise<HistoryExport> {
+  const build = format === "goodreads" ? buildGoodreadsCsv : format === "daily" ? buildDailyCsv : buildHistoryCsv;
+  const [csv, rowCount] = await build(range, includeRemoved);
+  return { fileName: `${FILE_NAMES[format]}-${describeRange(range)}`, csv, rowCount };
+}
+
+// Returns false if the user cancels saving the file
+export async function saveHistoryExport(historyExport: HistoryExport): Promise<boolean> {
+  return await exportFile(historyExport.fileName, "csv", "text/csv", historyExport.csv);
+}
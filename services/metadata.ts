@@ -0,0 +1,514 @@
+import {
+  readBytes,
+  readBytesExact,
+  createWindowedReader,
+  getFileSize,
+  readUint16BE,
+  readUint24BE,
+  readUint32BE,
+  readUint32LE,
+  readSyncsafeInt,
+  decodeLatin1,
+  decodeUtf8,
+  decodeUtf16,
+  startsWithAscii,
+} from "./byteReader";
+import { findBoxInFile, listBoxesInFile, readBoxInFile, findChildBox, getBoxContent } from "./mp4";
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  composer?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  // Free-form grouping (MP4 ©grp, ID3 TIT1); audiobook taggers often put the series here
+  grouping?: string;
+  series?: string;
+  // Kept as text: "3", "3.5" and "Book 3" all turn up
+  seriesPart?: string;
+}
+
+// Fields come first; a longer block only adds embedded pictures, which are cut off
+const MAX_VORBIS_COMMENT_BYTES = 1024 * 1024;
+const ID3V1_SIZE = 128;
+const OGG_HEADER_SCAN_BYTES = 512 * 1024;
+
+// Read title/artist/album/track tags from an audio file. Returns an empty object when
+// the file has no tags or the format isn't recognised — callers fall back to filenames.
+export async function readAudioMetadata(uri: string, filename: string): Promise<AudioMetadata> {
+  const lower = filename.toLowerCase();
+
+  try {
+    const fileSize = await getFileSize(uri);
+    if (fileSize === 0) return {};
+
+    if (lower.endsWith(".m4a") || lower.endsWith(".m4b")) {
+      return await readMp4Metadata(uri, fileSize);
+    }
+    if (lower.endsWith(".flac")) {
+      return await readFlacMetadata(uri, fileSize);
+    }
+    if (lower.endsWith(".ogg")) {
+      return await readOggMetadata(uri, fileSize);
+    }
+
+    // MP3 and raw AAC files carry ID3 tags; fill gaps in ID3v2 from ID3v1
+    const id3v2 = await readId3v2Metadata(uri, fileSize);
+    const id3v1 = await readId3v1Metadata(uri, fileSize);
+    return mergeMetadata(id3v2, id3v1);
+  } catch (error) {
+    console.warn(`Error reading tags from ${filename}:`, error);
+    return {};
+  }
+}
+
+function mergeMetadata(primary: AudioMetadata, fallback: AudioMetadata): AudioMetadata {
+  const merged: AudioMetadata = { ...fallback };
+  for (const key of Object.keys(primary) as (keyof AudioMetadata)[]) {
+    if (primary[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = primary[key];
+    }
+  }
+  return merged;
+}
+
+function cleanText(value: string | undefined): string | undefined {
+  const trimmed = value?.replace(/\u0000/g, "").trim();
+  return trimmed ? trimmed : undefined;
+}
+
+// Parses "3", "3/12" or "03 of 12"
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+// ID3v2
+
+export interface Id3Frame {
+  id: string;
+  data: Uint8Array;
+}
+
+export interface Id3Tag {
+  version: number;
+  frames: Id3Frame[];
+}
+
+function removeUnsynchronisation(data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(data.length);
+  let length = 0;
+  for (let i = 0; i < data.length; i++) {
+    result[length++] = data[i];
+    // 0xFF 0x00 was written as an escape for 0xFF
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return result.subarray(0, length);
+}
+
+// Whole-tag unsynchronisation (ID3v2.3 and older) hides the frame boundaries, so
+// those tags are read in one go; cover art can make them large
+const MAX_UNSYNCHRONISED_TAG_BYTES = 16 * 1024 * 1024;
+// Text and chapter frames are small; anything larger is cover art or damage
+const MAX_ID3_FRAME_BYTES = 1024 * 1024;
+
+interface Id3FrameHeader {
+  id: string;
+  size: number;
+  flags: number;
+}
+
+function getId3FrameHeaderLength(version: number): number {
+  return version === 2 ? 6 : 10;
+}
+
+function parseId3FrameHeader(data: Uint8Array, offset: number, version: number): Id3FrameHeader | null {
+  // Padding after the last frame
+  if (data[offset] === 0) return null;
+
+  const id = decodeLatin1(data, offset, offset + (version === 2 ? 3 : 4));
+  const size =
+    version === 2
+      ? readUint24BE(data, offset + 3)
+      : version === 4
+        ? readSyncsafeInt(data, offset + 4)
+        : readUint32BE(data, offset + 4);
+  if (size === 0) return null;
+
+  return { id, size, flags: version === 2 ? 0 : data[offset + 9] };
+}
+
+// Null for compressed or encrypted frames, which aren't supported
+function decodeId3FrameData(data: Uint8Array, flags: number, version: number): Uint8Array | null {
+  const isCompressedOrEncrypted = version === 4 ? (flags & 0x0c) !== 0 : (flags & 0xc0) !== 0;
+  if (isCompressedOrEncrypted) return null;
+
+  if (version === 4) {
+    // Data length indicator precedes the (possibly unsynchronised) frame data
+    if (flags & 0x01) data = data.subarray(4);
+    if (flags & 0x02) data = removeUnsynchronisation(data);
+  }
+  return data;
+}
+
+// Read the frames with the given IDs, skipping the rest (cover art above all) without
+// loading them. A tag that runs past the end of the file counts as no tag.
+export async function readId3v2Tag(uri: string, fileSize: number, frameIds: string[]): Promise<Id3Tag | null> {
+  if (fileSize < 10) return null;
+
+  const header = await readBytesExact(uri, 0, 10);
+  if (!header || !startsWithAscii(header, 0, "ID3")) return null;
+
+  const version = header[3];
+  const flags = header[5];
+  const tagEnd = 10 + readSyncsafeInt(header, 6);
+  if (version < 2 || version > 4 || tagEnd > fileSize) return null;
+
+  if (version < 4 && flags & 0x80) {
+    if (tagEnd - 10 > MAX_UNSYNCHRONISED_TAG_BYTES) return null;
+    const data = await readBytesExact(uri, 10, tagEnd - 10);
+    if (!data) return null;
+
+    const body = removeUnsynchronisation(data);
+    // Extended header: v2.3 size doesn't include itself
+    const start = version === 3 && flags & 0x40 ? readUint32BE(body, 0) + 4 : 0;
+    const frames = parseId3Frames(body, start, body.length, version);
+    return { version, frames: frames.filter((f) => frameIds.includes(f.id)) };
+  }
+
+  const read = createWindowedReader(uri, tagEnd);
+  let offset = 10;
+  if (version >= 3 && flags & 0x40) {
+    const extended = await read(offset, 4);
+    if (!extended) return null;
+    // Extended header: v2.4 size includes itself, v2.3 size doesn't
+    offset += version === 4 ? readSyncsafeInt(extended, 0) : readUint32BE(extended, 0) + 4;
+  }
+
+  const frames: Id3Frame[] = [];
+  const headerLength = getId3FrameHeaderLength(version);
+  while (offset + headerLength <= tagEnd) {
+    const frameHeader = await read(offset, headerLength);
+    if (!frameHeader) return null;
+
+    const frame = parseId3FrameHeader(frameHeader, 0, version);
+    const dataStart = offset + headerLength;
+    if (!frame || dataStart + frame.size > tagEnd) break;
+    offset = dataStart + frame.size;
+
+    if (!frameIds.includes(frame.id) || frame.size > MAX_ID3_FRAME_BYTES) continue;
+    const raw = await read(dataStart, frame.size);
+    if (!raw) return null;
+
+    const data = decodeId3FrameData(raw, frame.flags, version);
+    if (data) frames.push({ id: frame.id, data });
+  }
+
+  return { version, frames };
+}
+
+export function parseId3Frames(body: Uint8Array, start: number, end: number, version: number): Id3Frame[] {
+  const frames: Id3Frame[] = [];
+  const headerLength = getId3FrameHeaderLength(version);
+  let offset = start;
+
+  while (offset + headerLength <= end) {
+    const frame = parseId3FrameHeader(body, offset, version);
+    const dataStart = offset + headerLength;
+    if (!frame || dataStart + frame.size > end) break;
+    offset = dataStart + frame.size;
+
+    const data = decodeId3FrameData(body.subarray(dataStart, offset), frame.flags, version);
+    if (data) frames.push({ id: frame.id, data });
+  }
+
+  return frames;
+}
+
+function decodeId3String(data: Uint8Array, start: number, end: number, encoding: number): string {
+  switch (encoding) {
+    case 1:
+      return decodeUtf16(data, start, end);
+    case 2:
+      return decodeUtf16(data, start, end, true);
+    case 3:
+      return decodeUtf8(data, start, end);
+    default:
+      return decodeLatin1(data, start, end);
+  }
+}
+
+// Text frames: one encoding byte followed by the text. v2.4 allows several
+// null-separated values — the first one wins.
+export function decodeId3Text(data: Uint8Array): string | undefined {
+  if (data.length < 2) return undefined;
+  const text = decodeId3String(data, 1, data.length, data[0]);
+  return cleanText(text.split("\u0000")[0]);
+}
+
+// Frame IDs for ID3v2.3/2.4 and their three-letter ID3v2.2 equivalents
+const ID3_TEXT_FRAMES: Record<string, keyof AudioMetadata> = {
+  TIT2: "title",
+  TT2: "title",
+  TPE1: "artist",
+  TP1: "artist",
+  TPE2: "albumArtist",
+  TP2: "albumArtist",
+  TALB: "album",
+  TAL: "album",
+  TCOM: "composer",
+  TCM: "composer",
+  TRCK: "trackNumber",
+  TRK: "trackNumber",
+  TPOS: "discNumber",
+  TPA: "discNumber",
+  TIT1: "grouping",
+  TT1: "grouping",
+};
+
+// User-defined text frames (TXXX) used by audiobook taggers, keyed by description
+const ID3_USER_TEXT_FIELDS: Record<string, keyof AudioMetadata> = {
+  SERIES: "series",
+  "SERIES-PART": "seriesPart",
+  "SERIES PART": "seriesPart",
+  SERIESPART: "seriesPart",
+};
+
+const ID3_METADATA_FRAMES = [...Object.keys(ID3_TEXT_FRAMES), "TXXX", "TXX"];
+
+// TXXX: encoding byte, then a description and a value, each null-terminated
+function decodeId3UserText(data: Uint8Array): { description: string; value: string | undefined } {
+  if (data.length < 2) return { description: "", value: undefined };
+  const [description, value] = decodeId3String(data, 1, data.length, data[0]).split("\u0000").filter(Boolean);
+  return {
+    description: cleanText(description)?.toUpperCase() ?? "",
+    value: cleanText(value?.replace(/^\uFEFF/, "")),
+  };
+}
+
+async function readId3v2Metadata(uri: string, fileSize: number): Promise<AudioMetadata> {
+  const tag = await readId3v2Tag(uri, fileSize, ID3_METADATA_FRAMES);
+  if (!tag) return {};
+
+  const metadata: AudioMetadata = {};
+  for (const frame of tag.frames) {
+    if (frame.id === "TXXX" || frame.id === "TXX") {
+      const { description, value } = decodeId3UserText(frame.data);
+      const userKey = ID3_USER_TEXT_FIELDS[description];
+      if (userKey && metadata[userKey] === undefined && value) {
+        (metadata as Record<string, unknown>)[userKey] = value;
+      }
+      continue;
+    }
+
+    const key = ID3_TEXT_FRAMES[frame.id];
+    if (!key || metadata[key] !== undefined) continue;
+
+    const text = decodeId3Text(frame.data);
+    if (key === "trackNumber" || key === "discNumber") {
+      metadata[key] = parseNumber(text);
+    } else {
+      metadata[key] = text;
+    }
+  }
+  return metadata;
+}
+
+async function readId3v1Metadata(uri: string, fileSize: number): Promise<AudioMetadata> {
+  if (fileSize < ID3V1_SIZE) return {};
+
+  const tag = await readBytes(uri, fileSize - ID3V1_SIZE, ID3V1_SIZE);
+  if (!startsWithAscii(tag, 0, "TAG")) return {};
+
+  // ID3v1.1 stores the track number in the last byte of the comment field
+  const hasTrack = tag[125] === 0 && tag[126] !== 0;
+
+  return {
+    title: cleanText(decodeLatin1(tag, 3, 33)),
+    artist: cleanText(decodeLatin1(tag, 33, 63)),
+    album: cleanText(decodeLatin1(tag, 63, 93)),
+    trackNumber: hasTrack ? tag[126] : undefined,
+  };
+}
+
+// MP4 / M4B (iTunes-style ilst atoms)
+
+// ilst items holding text or numbers; cover art (covr) is never read
+const MP4_ITEMS: Record<string, keyof AudioMetadata> = {
+  "©nam": "title",
+  "©ART": "artist",
+  aART: "albumArtist",
+  "©alb": "album",
+  "©wrt": "composer",
+  "©grp": "grouping",
+  trkn: "trackNumber",
+  disk: "discNumber",
+};
+
+async function readMp4Metadata(uri: string, fileSize: number): Promise<AudioMetadata> {
+  const ilst = await findBoxInFile(uri, fileSize, ["moov", "udta", "meta", "ilst"]);
+  if (!ilst) return {};
+
+  const metadata: AudioMetadata = {};
+  for (const item of await listBoxesInFile(uri, ilst.start + ilst.headerSize, ilst.start + ilst.size)) {
+    const key = MP4_ITEMS[item.type];
+    if (!key) continue;
+
+    const data = await readBoxInFile(uri, item);
+    if (!data) return {};
+    const dataBox = findChildBox(data, item, ["data"], item.start);
+    if (!dataBox) continue;
+
+    // 4-byte type indicator and 4-byte locale precede the value
+    const value = getBoxContent(data, dataBox, item.start).subarray(8);
+
+    if (key === "trackNumber" || key === "discNumber") {
+      if (value.length >= 4) metadata[key] = readUint16BE(value, 2) || undefined;
+    } else {
+      metadata[key] = cleanText(decodeUtf8(value));
+    }
+  }
+
+  return metadata;
+}
+
+// Vorbis comments (FLAC and Ogg)
+
+function parseVorbisComments(data: Uint8Array, start: number): AudioMetadata {
+  let offset = start;
+  if (offset + 4 > data.length) return {};
+
+  const vendorLength = readUint32LE(data, offset);
+  offset += 4 + vendorLength;
+  if (offset + 4 > data.length) return {};
+
+  const count = readUint32LE(data, offset);
+  offset += 4;
+
+  const fields = new Map<string, string>();
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = readUint32LE(data, offset);
+    offset += 4;
+    const end = Math.min(offset + length, data.length);
+
+    const comment = decodeUtf8(data, offset, end);
+    offset = end;
+
+    const separator = comment.indexOf("=");
+    if (separator <= 0) continue;
+    const key = comment.substring(0, separator).toUpperCase();
+    if (!fields.has(key)) {
+      fields.set(key, comment.substring(separator + 1));
+    }
+  }
+
+  return {
+    title: cleanText(fields.get("TITLE")),
+    artist: cleanText(fields.get("ARTIST")),
+    albumArtist: cleanText(fields.get("ALBUMARTIST") ?? fields.get("ALBUM ARTIST")),
+    album: cleanText(fields.get("ALBUM")),
+    composer: cleanText(fields.get("COMPOSER")),
+    trackNumber: parseNumber(fields.get("TRACKNUMBER")),
+    discNumber: parseNumber(fields.get("DISCNUMBER")),
+    grouping: cleanText(fields.get("GROUPING")),
+    series: cleanText(fields.get("SERIES")),
+    seriesPart: cleanText(fields.get("SERIES-PART") ?? fields.get("SERIESPART")),
+  };
+}
+
+export interface FlacBlock {
+  type: number;
+  start: number;
+  length: number;
+}
+
+export async function listFlacBlocks(uri: string, fileSize: number): Promise<FlacBlock[]> {
+  if (fileSize < 8) return [];
+  const marker = await readBytes(uri, 0, 4);
+  if (!startsWithAscii(marker, 0, "fLaC")) return [];
+
+  const blocks: FlacBlock[] = [];
+  let offset = 4;
+  while (offset + 4 <= fileSize) {
+    const header = await readBytes(uri, offset, 4);
+    if (header.length < 4) break;
+    const isLast = (header[0] & 0x80) !== 0;
+    const length = readUint24BE(header, 1);
+    blocks.push({ type: header[0] & 0x7f, start: offset + 4, length });
+    if (isLast) break;
+    offset += 4 + length;
+  }
+  return blocks;
+}
+
+const FLAC_VORBIS_COMMENT = 4;
+
+async function readFlacMetadata(uri: string, fileSize: number): Promise<AudioMetadata> {
+  const blocks = await listFlacBlocks(uri, fileSize);
+  const commentBlock = blocks.find((b) => b.type === FLAC_VORBIS_COMMENT);
+  if (!commentBlock) return {};
+
+  if (commentBlock.start + commentBlock.length > fileSize) return {};
+
+  const data = await readBytesExact(uri, commentBlock.start, Math.min(commentBlock.length, MAX_VORBIS_COMMENT_BYTES));
+  return data ? parseVorbisComments(data, 0) : {};
+}
+
+// Reassemble the first packets of an Ogg stream from its page segments
+function readOggPackets(data: Uint8Array, maxPackets: number): Uint8Array[] {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= data.length && packets.length < maxPackets) {
+    if (!startsWithAscii(data, offset, "OggS")) break;
+
+    const segmentCount = data[offset + 26];
+    const tableStart = offset + 27;
+    let segmentOffset = tableStart + segmentCount;
+
+    for (let i = 0; i < segmentCount && packets.length < maxPackets; i++) {
+      const length = data[tableStart + i];
+      pending.push(data.subarray(segmentOffset, segmentOffset + length));
+      segmentOffset += length;
+
+      // A segment shorter than 255 bytes ends the packet
+      if (length < 255) {
+        const total = pending.reduce((sum, chunk) => sum + chunk.length, 0);
+        const packet = new Uint8Array(total);
+        let position = 0;
+        for (const chunk of pending) {
+          packet.set(chunk, position);
+          position += chunk.length;
+        }
+        packets.push(packet);
+        pending = [];
+      }
+    }
+
+    offset = segmentOffset;
+  }
+
+  return packets;
+}
+
+async function readOggMetadata(uri: string, fileSize: number): Promise<AudioMetadata> {
+  const data = await readBytesExact(uri, 0, Math.min(fileSize, OGG_HEADER_SCAN_BYTES));
+  if (!data) return {};
+
+  // The comment header is always the second packet (Vorbis or Opus)
+  const packets = readOggPackets(data, 2);
+  const comments = packets[1];
+  if (!comments) return {};
+
+  if (startsWithAscii(comments, 0, "\u0003vorbis")) {
+    return parseVorbisComments(comments, 7);
+  }
+  if (startsWithAscii(comments, 0, "OpusTags")) {
+    return parseVorbisComments(comments, 8);
+  }
+  return {};
+}
@@ -0,0 +1,311 @@
+import * as SQLite from "expo-sqlite";
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// The tables as first released. Everything since is a migration below, so a new
+// install goes through the same steps as an upgraded one.
+const BASE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS books (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    author TEXT,
+    cover_path TEXT,
+    folder_path TEXT NOT NULL UNIQUE,
+    total_duration_ms INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS chapters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    book_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    file_path TEXT NOT NULL UNIQUE,
+    duration_ms INTEGER DEFAULT 0,
+    position INTEGER NOT NULL,
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS progress (
+    book_id INTEGER PRIMARY KEY,
+    current_chapter_id INTEGER,
+    position_ms INTEGER DEFAULT 0,
+    last_played_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+    FOREIGN KEY (current_chapter_id) REFERENCES chapters(id) ON DELETE SET NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS folder_sources (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uri TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS book_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    book_id INTEGER,
+    title TEXT NOT NULL,
+    author TEXT,
+    cover_path TEXT,
+    total_duration_ms INTEGER DEFAULT 0,
+    started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    completed_at TEXT,
+    is_in_library INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS listening_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    book_history_id INTEGER NOT NULL,
+    duration_ms INTEGER DEFAULT 0,
+    session_date TEXT NOT NULL,
+    FOREIGN KEY (book_history_id) REFERENCES book_history(id) ON DELETE CASCADE
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_listening_sessions_unique
+    ON listening_sessions(book_history_id, session_date);
+`;
+
+// Ordered by version; never edit a step that has shipped, add a new one. Installs from
+// before versioning are at version 0 but may already have any of the first ten changes,
+// so those steps check before changing anything.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create history rows for books that don't have one",
+    migrate: async (database) => {
+      await database.runAsync(`
+        INSERT OR IGNORE INTO book_history (book_id, title, author, cover_path, total_duration_ms, started_at, is_in_library)
+        SELECT b.id, b.title, b.author, b.cover_path, b.total_duration_ms, b.created_at, 1
+        FROM books b
+        WHERE NOT EXISTS (SELECT 1 FROM book_history bh WHERE bh.book_id = b.id)
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Add the settings table",
+    migrate: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "Add bookmarks",
+    migrate: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS bookmarks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          book_id INTEGER NOT NULL,
+          chapter_id INTEGER,
+          position_ms INTEGER DEFAULT 0,
+          note TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+          FOREIGN KEY (chapter_id) REFERENCES chapters(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_book ON bookmarks(book_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Let embedded chapters share a file",
+    // chapters.file_path was UNIQUE and SQLite can't drop a constraint in place, so the
+    // table is rebuilt. Ids are kept for the progress and bookmark rows that use them.
+    migrate: async (database) => {
+      if (await hasColumn(database, "chapters", "start_ms")) return;
+
+      await database.execAsync(`
+        CREATE TABLE chapters_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          book_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          duration_ms INTEGER DEFAULT 0,
+          position INTEGER NOT NULL,
+          start_ms INTEGER NOT NULL DEFAULT 0,
+          end_ms INTEGER,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+          UNIQUE (file_path, start_ms)
+        );
+
+        INSERT INTO chapters_new (id, book_id, title, file_path, duration_ms, position)
+        SELECT id, book_id, title, file_path, duration_ms, position FROM chapters;
+
+        DROP TABLE chapters;
+        ALTER TABLE chapters_new RENAME TO chapters;
+      `);
+      await checkForeignKeys(database, "chapters");
+    },
+  },
+  {
+    version: 5,
+    description: "Track copied and missing chapter files",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "chapters", "source_path", "TEXT");
+      await addColumnIfMissing(database, "chapters", "missing", "INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+  {
+    version: 6,
+    description: "Remember playback speed per book",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "books", "playback_speed", "REAL");
+    },
+  },
+  {
+    version: 7,
+    description: "Add the library search index",
+    // Each row points back at its source by kind and ref_id (the book, chapter or bookmark id)
+    migrate: async (database) => {
+      const existing = await database.getFirstAsync<{ name: string }>(
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'library_search'`
+      );
+      if (existing) return;
+
+      await database.execAsync(`
+        CREATE VIRTUAL TABLE library_search USING fts5(
+          text,
+          kind UNINDEXED,
+          book_id UNINDEXED,
+          ref_id UNINDEXED,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        INSERT INTO library_search (text, kind, book_id, ref_id)
+        SELECT title, 'title', id, id FROM books;
+
+        INSERT INTO library_search (text, kind, book_id, ref_id)
+        SELECT author, 'author', id, id FROM books WHERE author IS NOT NULL AND author != '';
+
+        INSERT INTO library_search (text, kind, book_id, ref_id)
+        SELECT title, 'chapter', book_id, id FROM chapters;
+
+        INSERT INTO library_search (text, kind, book_id, ref_id)
+        SELECT note, 'bookmark', book_id, id FROM bookmarks WHERE note IS NOT NULL AND note != '';
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Add series name and volume",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "books", "series_name", "TEXT");
+      await addColumnIfMissing(database, "books", "series_index", "REAL");
+    },
+  },
+  {
+    version: 9,
+    description: "Add editable book details",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "books", "narrator", "TEXT");
+      await addColumnIfMissing(database, "books", "description", "TEXT");
+      await addColumnIfMissing(database, "books", "year", "INTEGER");
+    },
+  },
+  {
+    version: 10,
+    description: "Add trim silence",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "books", "trim_silence", "INTEGER NOT NULL DEFAULT 0");
+      await addColumnIfMissing(database, "book_history", "silence_trimmed_ms", "INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+  {
+    version: 11,
+    description: "Add volume boost",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "books", "volume_boost", "INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+  {
+    version: 12,
+    description: "Look up series once for books imported before series support",
+    migrate: async (database) => {
+      await addColumnIfMissing(database, "books", "series_backfill", "INTEGER NOT NULL DEFAULT 0");
+      await database.runAsync(`UPDATE books SET series_backfill = 1 WHERE series_name IS NULL`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+async function hasColumn(database: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some((c) => c.name === column);
+}
+
+async function addColumnIfMissing(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  if (!(await hasColumn(database, table, column))) {
+    await database.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  }
+}
+
+// Foreign keys are off while migrating, so a table rebuild checks its own rows.
+// Only the rebuilt table is checked: a stale reference elsewhere predates the
+// migration and mustn't stop the database from opening.
+async function checkForeignKeys(database: SQLite.SQLiteDatabase, table: string): Promise<void> {
+  const violations = await database.getAllAsync<{ table: string }>(`PRAGMA foreign_key_check(${table})`);
+  if (violations.length > 0) {
+    throw new Error(`Rebuilding "${table}" left ${violations.length} broken references`);
+  }
+}
+
+export async function getSchemaVersion(database: SQLite.SQLiteDatabase): Promise<number> {
+  const result = await database.getFirstAsync<{ user_version: number }>(`PRAGMA user_version`);
+  return result?.user_version ?? 0;
+}
+
+// Brings the schema up to LATEST_SCHEMA_VERSION. All pending steps run in one
+// transaction, so a failure rolls back to the version the database started at and
+// the error names the step that failed.
+export async function runMigrations(database: SQLite.SQLiteDatabase): Promise<void> {
+  const startVersion = await getSchemaVersion(database);
+  if (startVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${startVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  if (startVersion === LATEST_SCHEMA_VERSION) return;
+
+  // Table rebuilds would cascade deletes or trip foreign keys part way through. The
+  // pragma has no effect inside a transaction, so it's switched off around it and
+  // rebuilt tables check their keys before committing instead.
+  await database.execAsync(`PRAGMA foreign_keys = OFF;`);
+  try {
+    await database.withTransactionAsync(async () => {
+      if (startVersion === 0) {
+        await database.execAsync(BASE_SCHEMA);
+      }
+
+      for (const migration of MIGRATIONS.filter((m) => m.version > startVersion)) {
+        try {
+          await migration.migrate(database);
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${message}`);
+        }
+      }
+
+      await database.execAsync(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION};`);
+    });
+  } finally {
+    await database.execAsync(`PRAGMA foreign_keys = ON;`);
+  }
+}
@@ -0,0 +1,157 @@
+import { readBytes, readBytesExact, readUint32BE, readUint64BE, decodeLatin1 } from "./byteReader";
+
+// MP4/QuickTime boxes ("atoms"). Positions are absolute byte offsets.
+export interface Mp4Box {
+  type: string;
+  start: number;
+  size: number;
+  headerSize: number;
+}
+
+// Boxes that start with a 4-byte version/flags field before their children
+const FULL_BOX_CONTAINERS = ["meta"];
+// Only header, index and text boxes are read whole; media data never is
+const MAX_BOX_READ_BYTES = 4 * 1024 * 1024;
+
+function parseBoxHeader(header: Uint8Array, start: number, end: number): Mp4Box | null {
+  if (header.length < 8) return null;
+
+  let size = readUint32BE(header, 0);
+  const type = decodeLatin1(header, 4, 8);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (header.length < 16) return null;
+    size = readUint64BE(header, 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    // Box extends to the end of its parent (or the file)
+    size = end - start;
+  }
+
+  if (size < headerSize || start + size > end) return null;
+  return { type, start, size, headerSize };
+}
+
+// List the boxes between two file offsets by reading only their headers
+export async function listBoxesInFile(uri: string, start: number, end: number): Promise<Mp4Box[]> {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const header = await readBytes(uri, offset, Math.min(16, end - offset));
+    const box = parseBoxHeader(header, offset, end);
+    if (!box) break;
+    boxes.push(box);
+    offset += box.size;
+  }
+
+  return boxes;
+}
+
+// Follow a path of box types from the top of the file, e.g. ["moov", "udta"]
+export async function findBoxInFile(uri: string, fileSize: number, path: string[]): Promise<Mp4Box | null> {
+  let start = 0;
+  let end = fileSize;
+  let found: Mp4Box | null = null;
+
+  for (const type of path) {
+    const boxes = await listBoxesInFile(uri, start, end);
+    found = boxes.find((b) => b.type === type) ?? null;
+    if (!found) return null;
+    start = await getChildrenStartInFile(uri, found);
+    end = found.start + found.size;
+  }
+
+  return found;
+}
+
+// Null when the box is too large to read whole or the file ends inside it
+export async function readBoxInFile(uri: string, box: Mp4Box): Promise<Uint8Array | null> {
+  if (box.size > MAX_BOX_READ_BYTES) return null;
+  return await readBytesExact(uri, box.start, box.size);
+}
+
+async function getChildrenStartInFile(uri: string, box: Mp4Box): Promise<number> {
+  const contentStart = box.start + box.headerSize;
+  if (!FULL_BOX_CONTAINERS.includes(box.type)) return contentStart;
+  return getChildrenStart(box, await readBytes(uri, contentStart, 8), contentStart);
+}
+
+function getChildrenStart(box: Mp4Box, data?: Uint8Array, dataOffset: number = 0): number {
+  const contentStart = box.start + box.headerSize;
+  if (!FULL_BOX_CONTAINERS.includes(box.type)) return contentStart;
+
+  // QuickTime-style meta boxes omit the version/flags field; detect by peeking at the child type
+  if (data) {
+    const peek = contentStart - dataOffset + 4;
+    if (peek + 4 <= data.length && decodeLatin1(data, peek, peek + 4) === "hdlr") {
+      return contentStart;
+    }
+  }
+  return contentStart + 4;
+}
+
+// List the boxes inside an in-memory buffer. `dataOffset` is the file offset of data[0].
+export function listBoxes(data: Uint8Array, start: number, end: number, dataOffset: number = 0): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const local = offset - dataOffset;
+    const box = parseBoxHeader(data.subarray(local, local + 16), offset, end);
+    if (!box) break;
+    boxes.push(box);
+    offset += box.size;
+  }
+
+  return boxes;
+}
+
+export function getChildBoxes(data: Uint8Array, parent: Mp4Box, dataOffset: number = 0): Mp4Box[] {
+  return listBoxes(data, getChildrenStart(parent, data, dataOffset), parent.start + parent.size, dataOffset);
+}
+
+// Follow a path of box types inside an in-memory parent box
+export function findChildBox(
+  data: Uint8Array,
+  parent: Mp4Box,
+  path: string[],
+  dataOffset: number = 0
+): Mp4Box | null {
+  let current: Mp4Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = getChildBoxes(data, current, dataOffset).find((b) => b.type === type) ?? null;
+  }
+  return current;
+}
+
+// Content bytes of an in-memory box (after its header)
+export function getBoxContent(data: Uint8Array, box: Mp4Box, dataOffset: number = 0): Uint8Array {
+  const start = box.start + box.headerSize - dataOffset;
+  return data.subarray(start, box.start + box.size - dataOffset);
+}
+
+// Timescale and duration from an mvhd/mdhd box's content (same layout up to the duration)
+export function parseTimescaleAndDuration(content: Uint8Array): { timescale: number; duration: number } | null {
+  const version = content[0];
+  if (version === 1) {
+    if (content.length < 32) return null;
+    return { timescale: readUint32BE(content, 20), duration: readUint64BE(content, 24) };
+  }
+  if (content.length < 20) return null;
+  return { timescale: readUint32BE(content, 12), duration: readUint32BE(content, 16) };
+}
+
+// Overall presentation length from moov/mvhd, in milliseconds
+export async function readMp4DurationMs(uri: string, fileSize: number): Promise<number | null> {
+  const mvhd = await findBoxInFile(uri, fileSize, ["moov", "mvhd"]);
+  if (!mvhd) return null;
+
+  const data = await readBoxInFile(uri, mvhd);
+  if (!data) return null;
+  const parsed = parseTimescaleAndDuration(getBoxContent(data, mvhd, mvhd.start));
+  if (!parsed || parsed.timescale === 0) return null;
+  return Math.round((parsed.duration / parsed.timescale) * 1000);
+}
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { LibraryQuery, getAllSettings, setSetting, deleteSetting } from "./database";
+
+export type TimelineMode = "chapter" | "book";
+
+export interface Preferences {
+  // Playback
+  skipBackSeconds: number;
+  skipForwardSeconds: number;
+  // Speed for books that have never had their own speed set
+  defaultPlaybackSpeed: number;
+  minPlaybackSpeed: number;
+  maxPlaybackSpeed: number;
+  smartRewind: boolean;
+  smartRewindCrossChapters: boolean;
+  sleepTimerRewindSeconds: number;
+  progressSaveIntervalSeconds: number;
+  timelineMode: TimelineMode;
+  // Library
+  libraryView: LibraryQuery;
+  // Scanning
+  scanOnLaunch: boolean;
+  // How many folders deep to look for books below a source folder
+  maxFolderDepth: number;
+  // Analytics
+  trackListeningTime: boolean;
+  // Goals; 0 turns a goal off
+  dailyGoalMinutes: number;
+  yearlyBookGoal: number;
+  // Missed days in a row that don't break a listening streak
+  streakGraceDays: number;
+}
+
+export type PreferenceKey = keyof Preferences;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  skipBackSeconds: 30,
+  skipForwardSeconds: 30,
+  defaultPlaybackSpeed: 1.0,
+  minPlaybackSpeed: 0.5,
+  maxPlaybackSpeed: 3.0,
+  smartRewind: true,
+  smartRewindCrossChapters: false,
+  sleepTimerRewindSeconds: 30,
+  progressSaveIntervalSeconds: 5,
+  timelineMode: "chapter",
+  libraryView: {
+    sort: "last_played",
+    descending: true,
+    status: "all",
+    author: null,
+    folderSourceId: null,
+    groupBySeries: false,
+  },
+  scanOnLaunch: true,
+  maxFolderDepth: 3,
+  trackListeningTime: true,
+  dailyGoalMinutes: 30,
+  yearlyBookGoal: 12,
+  streakGraceDays: 1,
+};
+
+export const SKIP_INTERVAL_OPTIONS = [10, 15, 30, 45, 60, 90];
+export const SLEEP_TIMER_REWIND_OPTIONS = [0, 15, 30, 60];
+
+// Stored numbers outside these bounds fall back to the default
+const NUMBER_RANGES: Partial<Record<PreferenceKey, [number, number]>> = {
+  skipBackSeconds: [1, 600],
+  skipForwardSeconds: [1, 600],
+  defaultPlaybackSpeed: [0.25, 4],
+  minPlaybackSpeed: [0.25, 1],
+  maxPlaybackSpeed: [1.5, 4],
+  sleepTimerRewindSeconds: [0, 600],
+  progressSaveIntervalSeconds: [1, 60],
+  maxFolderDepth: [1, 10],
+  dailyGoalMinutes: [0, 24 * 60],
+  yearlyBookGoal: [0, 365],
+  streakGraceDays: [0, 7],
+};
+
+// Each preference is stored as JSON under its own settings key
+const PREFERENCE_KEY_PREFIX = "pref:";
+
+// Settings written before the preferences store, converted once and then removed
+const LEGACY_SETTINGS: { key: string; migrate: (value: string) => Partial<Preferences> }[] = [
+  { key: "skip_back_seconds", migrate: (value) => ({ skipBackSeconds: Number(value) }) },
+  { key: "skip_forward_seconds", migrate: (value) => ({ skipForwardSeconds: Number(value) }) },
+  { key: "default_playback_speed", migrate: (value) => ({ defaultPlaybackSpeed: Number(value) }) },
+  { key: "smart_rewind", migrate: (value) => ({ smartRewind: value !== "off" }) },
+  { key: "smart_rewind_cross_chapters", migrate: (value) => ({ smartRewindCrossChapters: value === "on" }) },
+  { key: "sleep_timer_rewind_seconds", migrate: (value) => ({ sleepTimerRewindSeconds: Number(value) }) },
+  { key: "player_timeline_mode", migrate: (value) => ({ timelineMode: value === "book" ? "book" : "chapter" }) },
+  { key: "library_view", migrate: (value) => ({ libraryView: JSON.parse(value) }) },
+];
+
+// Speeds outside the slider's range are brought to its nearest end
+export function clampPlaybackSpeed(speed: number, preferences: Preferences): number {
+  return Math.min(preferences.maxPlaybackSpeed, Math.max(preferences.minPlaybackSpeed, speed));
+}
+
+let cachedPreferences: Preferences | null = null;
+let loadingPreferences: Promise<Preferences> | null = null;
+const listeners = new Set<(preferences: Preferences) => void>();
+
+// Falls back to the default when a stored value has the wrong shape
+function sanitizePreference<K extends PreferenceKey>(key: K, value: unknown): Preferences[K] {
+  const fallback = DEFAULT_PREFERENCES[key];
+  if (typeof value !== typeof fallback) return fallback;
+
+  if (typeof value === "number") {
+    const range = NUMBER_RANGES[key];
+    if (!Number.isFinite(value) || (range && (value < range[0] || value > range[1]))) return fallback;
+  }
+  // Objects keep the defaults for fields added since they were saved
+  if (typeof fallback === "object" && fallback !== null) {
+    return { ...fallback, ...(value as object) };
+  }
+  return value as Preferences[K];
+}
+
+function applyStoredPreference<K extends PreferenceKey>(preferences: Preferences, key: K, stored: string): void {
+  try {
+    preferences[key] = sanitizePreference(key, JSON.parse(stored));
+  } catch (e) {
+    console.warn(`Error reading preference "${key}":`, e);
+  }
+}
+
+async function migrateLegacySettings(settings: Record<string, string>): Promise<void> {
+  for (const legacy of LEGACY_SETTINGS) {
+    const value = settings[legacy.key];
+    if (value === undefined) continue;
+
+    try {
+      for (const [key, migrated] of Object.entries(legacy.migrate(value))) {
+        const storedKey = `${PREFERENCE_KEY_PREFIX}${key}`;
+        // A value already saved in the new store wins
+        if (settings[storedKey] !== undefined) continue;
+        settings[storedKey] = JSON.stringify(migrated);
+        await setSetting(storedKey, settings[storedKey]);
+      }
+    } catch (e) {
+      console.warn(`Error migrating setting "${legacy.key}":`, e);
+    }
+    await deleteSetting(legacy.key);
+  }
+}
+
+async function readPreferences(): Promise<Preferences> {
+  const settings = await getAllSettings();
+  await migrateLegacySettings(settings);
+
+  const preferences = { ...DEFAULT_PREFERENCES };
+  for (const key of Object.keys(DEFAULT_PREFERENCES) as PreferenceKey[]) {
+    const stored = settings[`${PREFERENCE_KEY_PREFIX}${key}`];
+    if (stored !== undefined) {
+      applyStoredPreference(preferences, key, stored);
+    }
+  }
+  // The range may have been narrowed after the default was saved
+  preferences.defaultPlaybackSpeed = clampPlaybackSpeed(preferences.defaultPlaybackSpeed, preferences);
+  return preferences;
+}
+
+function notifyListeners(preferences: Preferences): void {
+  listeners.forEach((listener) => listener(preferences));
+}
+
+// Reads the store once; later calls return the cached copy
+export async function loadPreferences(): Promise<Preferences> {
+  if (cachedPreferences) return cachedPreferences;
+
+  if (!loadingPreferences) {
+    loadingPreferences = readPreferences()
+      .then((preferences) => {
+        cachedPreferences = preferences;
+        return preferences;
+      })
+      .finally(() => {
+        loadingPreferences = null;
+      });
+  }
+  return loadingPreferences;
+}
+
+// The current values without waiting; defaults until the store has been read
+export function getPreferences(): Preferences {
+  return cachedPreferences ?? DEFAULT_PREFERENCES;
+}
+
+export async function setPreference<K extends PreferenceKey>(key: K, value: Preferences[K]): Promise<void> {
+  const current = await loadPreferences();
+  const updated: Preferences = { ...current, [key]: value };
+  // Changing the speed range pulls the default speed along with it
+  const defaultSpeed = clampPlaybackSpeed(updated.defaultPlaybackSpeed, updated);
+  const defaultSpeedChanged = defaultSpeed !== current.defaultPlaybackSpeed;
+  updated.defaultPlaybackSpeed = defaultSpeed;
+
+  cachedPreferences = updated;
+  notifyListeners(cachedPreferences);
+  await setSetting(`${PREFERENCE_KEY_PREFIX}${key}`, JSON.stringify(updated[key]));
+  if (key !== "defaultPlaybackSpeed" && defaultSpeedChanged) {
+    await setSetting(`${PREFERENCE_KEY_PREFIX}defaultPlaybackSpeed`, JSON.stringify(defaultSpeed));
+  }
+}
+
+export async function resetPreferences(): Promise<void> {
+  cachedPreferences = { ...DEFAULT_PREFERENCES };
+  notifyListeners(cachedPreferences);
+  for (const key of Object.keys(DEFAULT_PREFERENCES)) {
+    await deleteSetting(`${PREFERENCE_KEY_PREFIX}${key}`);
+  }
+}
+
+// Called with the new values after every change; returns the unsubscribe function
+export function subscribeToPreferences(listener: (preferences: Preferences) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function usePreferences(): Preferences {
+  const [preferences, setPreferences] = useState(getPreferences);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPreferences(setPreferences);
+    loadPreferences()
+      .then(setPreferences)
+      .catch((e) => console.warn("Error loading preferences:", e));
+    return unsubscribe;
+  }, []);
+
+  return preferences;
+}
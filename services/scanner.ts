@@ -3,13 +3,30 @@ import { StorageAccessFramework } from "expo-file-system/legacy";
 import * as DocumentPicker from "expo-document-picker";
 import { Platform } from "react-native";
 import {
+  Book,
+  Chapter,
   insertBook,
   insertChapter,
   bookExistsAtPath,
+  getBookByFolderPath,
+  getAllChaptersForBook,
+  setChapterMissing,
+  updateChapterPositions,
+  getChaptersWithoutDuration,
+  updateChapterDuration,
+  recalculateBookDuration,
+  updateBookSeries,
 } from "./database";
+import { AudioMetadata, readAudioMetadata } from "./metadata";
+import { EmbeddedChapter, readEmbeddedChapters } from "./embeddedChapters";
+import { CueSheet, readCueSheet, getCueChapters } from "./cueSheet";
+import { readAudioDurationMs } from "./audioDuration";
+import { SeriesInfo, PathSeries, getSeriesFromTags, getSeriesFromPath } from "./series";
+import { loadPreferences } from "./preferences";
 
 const AUDIO_EXTENSIONS = [".mp3", ".m4a", ".m4b", ".aac", ".wav", ".flac", ".ogg"];
 const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+const CUE_EXTENSION = ".cue";
 const COVER_FILENAMES = ["cover", "folder", "front", "album", "artwork"];
 const AUDIO_MIME_TYPES = [
   "audio/mpeg",
@@ -23,14 +40,37 @@ const AUDIO_MIME_TYPES = [
   "audio/*",
 ];
 
-interface ScannedFile {
+export interface ScannedFile {
   name: string;
   uri: string;
 }
 
+interface DirectoryListing {
+  audioFiles: ScannedFile[];
+  imageFiles: ScannedFile[];
+  cueFiles: ScannedFile[];
+  subdirectories: string[];
+}
+
+interface TaggedFile extends ScannedFile {
+  metadata: AudioMetadata;
+}
+
+interface BookTags {
+  title?: string;
+  author?: string;
+}
+
+export interface ImportSummary {
+  booksAdded: number;
+  chaptersAdded: number;
+  // Chapters of already imported books whose file went missing since the last scan
+  chaptersMissing: number;
+}
+
 interface ImportResult {
   success: boolean;
-  booksImported: number;
+  summary: ImportSummary;
   message: string;
 }
 
@@ -74,6 +114,10 @@ function isImageFile(filename: string): boolean {
   return IMAGE_EXTENSIONS.some((ext) => lower.endsWith(ext));
 }
 
+function isCueFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith(CUE_EXTENSION);
+}
+
 function isCoverImage(filename: string): boolean {
   if (!isImageFile(filename)) return false;
   const lower = filename.toLowerCase();
@@ -116,6 +160,235 @@ function naturalSort(a: string, b: string): number {
   return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
 }
 
+async function readTags(files: ScannedFile[]): Promise<TaggedFile[]> {
+  const tagged: TaggedFile[] = [];
+  for (const file of files) {
+    tagged.push({ ...file, metadata: await readAudioMetadata(file.uri, file.name) });
+  }
+  return tagged;
+}
+
+// Order by disc/track number when every file has a unique one; otherwise keep the
+// filename order the files arrived in
+function sortByTrackNumber(files: TaggedFile[]): TaggedFile[] {
+  const trackKey = (f: TaggedFile) => `${f.metadata.discNumber ?? 1}:${f.metadata.trackNumber}`;
+  const allNumbered = files.every((f) => f.metadata.trackNumber !== undefined);
+  if (!allNumbered || new Set(files.map(trackKey)).size !== files.length) {
+    return files;
+  }
+
+  return [...files].sort(
+    (a, b) =>
+      (a.metadata.discNumber ?? 1) - (b.metadata.discNumber ?? 1) ||
+      (a.metadata.trackNumber ?? 0) - (b.metadata.trackNumber ?? 0)
+  );
+}
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const value of values) {
+    if (!value) continue;
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function getAuthorFromTags(metadata: AudioMetadata): string | undefined {
+  return metadata.albumArtist ?? metadata.artist ?? metadata.composer;
+}
+
+// Book-level tags agreed on by most of the files
+function getBookTags(files: TaggedFile[]): BookTags {
+  return {
+    title: mostCommon(files.map((f) => f.metadata.album)),
+    author: mostCommon(files.map((f) => getAuthorFromTags(f.metadata))),
+  };
+}
+
+// Series tags win; the folder layout fills in a volume number the tags leave out
+function getBookSeries(files: TaggedFile[], pathSeries: PathSeries | null): SeriesInfo | null {
+  const tagged = getSeriesFromTags(files.map((f) => f.metadata));
+  if (!tagged) return pathSeries?.series ?? null;
+  if (tagged.index === null && pathSeries?.series.name.toLowerCase() === tagged.name.toLowerCase()) {
+    return { ...tagged, index: pathSeries.series.index };
+  }
+  return tagged;
+}
+
+// Books imported before series were read are looked up once, on their first rescan,
+// from the first file's tags and the folder layout. After that the series is the
+// user's: clearing it in the editor sticks.
+async function fillInBookSeries(book: Book, audioFiles: ScannedFile[], folderNames: string[]): Promise<void> {
+  if (book.series_backfill !== 1 || audioFiles.length === 0) return;
+  const taggedFiles = await readTags(audioFiles.slice(0, 1));
+  const series = getBookSeries(taggedFiles, getSeriesFromPath(folderNames));
+  await updateBookSeries(book.id, series?.name ?? null, series?.index ?? null);
+}
+
+// Track titles are only useful when they tell the chapters apart
+function getChapterTitles(files: TaggedFile[]): string[] {
+  const tagTitles = files.map((f) => f.metadata.title);
+  const useTags = files.length === 1 || new Set(tagTitles).size === files.length;
+  return files.map((f, i) =>
+    (useTags && tagTitles[i]) || getChapterTitleFromFilename(f.name)
+  );
+}
+
+// Does this chapter row come from the given file in the book's folder? Copies made
+// before source paths were recorded are matched on their sanitized filename.
+function chapterMatchesFile(chapter: Chapter, file: ScannedFile): boolean {
+  if (chapter.source_path !== null) return chapter.source_path === file.uri;
+  if (chapter.file_path === file.uri) return true;
+  return !file.uri.startsWith("content://") && getFilenameFromUri(chapter.file_path) === sanitizeFilename(file.name);
+}
+
+// Bring an imported book in line with its folder: insert new audio files in natural-sort
+// order among the existing ones, flag chapters whose file is gone and renumber positions.
+// Progress and bookmarks point at chapter ids, so they stay on the same chapter.
+async function syncBookChapters(
+  book: Book,
+  audioFiles: ScannedFile[],
+  getPlayableUri: (file: ScannedFile) => Promise<string>,
+  summary: ImportSummary
+): Promise<void> {
+  const chapters = await getAllChaptersForBook(book.id);
+
+  // Group existing chapters by file, keeping their current order
+  const groups: { name: string; chapterIds: number[] }[] = [];
+  const matchedFiles = new Set<ScannedFile>();
+  for (const chapter of chapters) {
+    const file = audioFiles.find((f) => chapterMatchesFile(chapter, f));
+    if (file) {
+      matchedFiles.add(file);
+      if (chapter.missing) await setChapterMissing(chapter.id, false);
+    } else {
+      // Chapters flagged on an earlier scan aren't news
+      if (!chapter.missing) {
+        await setChapterMissing(chapter.id, true);
+        summary.chaptersMissing++;
+      }
+    }
+
+    const name = file?.name ?? getFilenameFromUri(chapter.source_path ?? chapter.file_path);
+    const group = groups.find((g) => g.name === name);
+    if (group) group.chapterIds.push(chapter.id);
+    else groups.push({ name, chapterIds: [chapter.id] });
+  }
+
+  const newFiles = audioFiles.filter((f) => !matchedFiles.has(f));
+  if (newFiles.length === 0) return;
+
+  const taggedFiles = await readTags(newFiles);
+  const titles = getChapterTitles(taggedFiles);
+
+  for (let i = 0; i < taggedFiles.length; i++) {
+    const file = taggedFiles[i];
+    const playableUri = await getPlayableUri(file);
+    let chapterIds: number[];
+    if (audioFiles.length === 1) {
+      // The book's only file, split on its embedded chapter markers as on import
+      chapterIds = await insertSingleFileChapters(book.id, file, playableUri, titles[i], null);
+    } else {
+      const sourcePath = playableUri === file.uri ? null : file.uri;
+      const durationMs = (await readAudioDurationMs(file.uri, file.name)) ?? 0;
+      chapterIds = [
+        await insertChapter(book.id, titles[i], playableUri, chapters.length + i, durationMs, 0, null, sourcePath),
+      ];
+    }
+
+    // Before the first existing file that sorts after it
+    const index = groups.findIndex((g) => naturalSort(g.name, file.name) > 0);
+    const group = { name: file.name, chapterIds };
+    if (index >= 0) groups.splice(index, 0, group);
+    else groups.push(group);
+    summary.chaptersAdded += chapterIds.length;
+  }
+
+  let position = 0;
+  const positions: { id: number; position: number }[] = [];
+  for (const group of groups) {
+    for (const id of group.chapterIds) {
+      positions.push({ id, position: position++ });
+    }
+  }
+  await updateChapterPositions(positions);
+  await recalculateBookDuration(book.id);
+}
+
+function getBaseName(filename: string): string {
+  const dotIndex = filename.lastIndexOf(".");
+  return (dotIndex > 0 ? filename.substring(0, dotIndex) : filename).toLowerCase();
+}
+
+// A cue sheet belongs to the audio file with the same base name, or to the only
+// audio file in its folder
+function findCueFile(audioFile: ScannedFile, cueFiles: ScannedFile[], audioFileCount: number): ScannedFile | null {
+  const baseName = getBaseName(audioFile.name);
+  const match = cueFiles.find((cue) => getBaseName(cue.name) === baseName);
+  if (match) return match;
+  return audioFileCount === 1 && cueFiles.length === 1 ? cueFiles[0] : null;
+}
+
+// Malformed cue sheets are reported and the book falls back to a normal import
+async function loadCueSheet(cueFile: ScannedFile | null, warnings: string[]): Promise<CueSheet | null> {
+  if (!cueFile) return null;
+
+  try {
+    return await readCueSheet(cueFile.uri);
+  } catch (error) {
+    console.warn(`Ignoring cue sheet ${cueFile.name}:`, error);
+    warnings.push(`Ignored cue sheet "${cueFile.name}" (${getErrorMessage(error)}), imported as a single chapter`);
+    return null;
+  }
+}
+
+function getCueAuthor(sheet: CueSheet): string | undefined {
+  return sheet.performer ?? mostCommon(sheet.tracks.map((t) => t.performer));
+}
+
+// Insert the chapters of a single-file book: one per cue sheet track or embedded
+// chapter marker, or a single chapter covering the whole file when it has neither.
+// Returns the new chapter ids in order.
+async function insertSingleFileChapters(
+  bookId: number,
+  file: ScannedFile,
+  playableUri: string,
+  fallbackTitle: string,
+  cueSheet: CueSheet | null
+): Promise<number[]> {
+  let chapters: EmbeddedChapter[];
+  if (cueSheet) {
+    chapters = getCueChapters(cueSheet);
+  } else {
+    chapters = await readEmbeddedChapters(file.uri, file.name);
+  }
+
+  // Copied files remember where they came from so rescans can match them
+  const sourcePath = playableUri === file.uri ? null : file.uri;
+  const fileDurationMs = await readAudioDurationMs(file.uri, file.name);
+
+  if (chapters.length === 0) {
+    return [await insertChapter(bookId, fallbackTitle, playableUri, 0, fileDurationMs ?? 0, 0, null, sourcePath)];
+  }
+
+  const ids: number[] = [];
+  for (let i = 0; i < chapters.length; i++) {
+    const chapter = chapters[i];
+    // The last cue track runs to the end of the file
+    const endMs = chapter.endMs ?? fileDurationMs;
+    const durationMs = endMs !== null ? endMs - chapter.startMs : 0;
+    ids.push(await insertChapter(bookId, chapter.title, playableUri, i, durationMs, chapter.startMs, endMs, sourcePath));
+  }
+  return ids;
+}
+
 function getParentDirectory(uri: string): string {
   // Remove trailing slash if present
   const cleanUri = uri.endsWith("/") ? uri.slice(0, -1) : uri;
@@ -149,6 +422,36 @@ function getErrorMessage(error: unknown): string {
   return String(error);
 }
 
+function createImportSummary(): ImportSummary {
+  return { booksAdded: 0, chaptersAdded: 0, chaptersMissing: 0 };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function describeImportSummary(summary: ImportSummary): string {
+  const parts: string[] = [];
+  if (summary.booksAdded > 0) parts.push(`imported ${plural(summary.booksAdded, "new book")}`);
+  if (summary.chaptersAdded > 0) parts.push(`added ${plural(summary.chaptersAdded, "new chapter")}`);
+  if (summary.chaptersMissing > 0) parts.push(`${plural(summary.chaptersMissing, "chapter")} missing`);
+  if (parts.length === 0) return "No new audiobooks or chapters found";
+
+  const text = parts.join(", ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function getImportResult(summary: ImportSummary, booksFound: number, warnings: string[]): ImportResult {
+  const description = booksFound === 0
+    ? "No audiobooks found in the selected location"
+    : describeImportSummary(summary);
+  return {
+    success: booksFound > 0,
+    summary,
+    message: [description, ...warnings].join("\n\n"),
+  };
+}
+
 async function getUniqueFilename(directory: string, filename: string): Promise<string> {
   const sanitized = sanitizeFilename(filename);
   let destUri = `${directory}${sanitized}`;
@@ -229,20 +532,49 @@ export async function scanAndImportFolder(folderUri: string): Promise<ImportResu
     }
   } catch (error) {
     console.error("Error scanning folder:", error);
-    return { success: false, booksImported: 0, message: `Error scanning folder: ${getErrorMessage(error)}` };
+    return {
+      success: false,
+      summary: createImportSummary(),
+      message: `Error scanning folder: ${getErrorMessage(error)}`,
+    };
   }
 }
 
 // Android SAF scanning
 async function scanAndImportSAFFolder(folderUri: string): Promise<ImportResult> {
-  let booksImported = 0;
+  const summary = createImportSummary();
+  const warnings: string[] = [];
+
+  const { audioFiles, imageFiles, cueFiles, subdirectories } = await listSAFDirectory(folderUri);
+
+  // Find a cover image for the root folder (for single-file books)
+  const rootCoverUri = findCoverImage(imageFiles);
 
+  // If there are subdirectories, treat each as a potential book (folder with chapters).
+  // Books can sit up to Author/Series/Book below the scanned folder by default.
+  const { maxFolderDepth } = await loadPreferences();
+  let booksFound = await scanSAFSubdirectories(subdirectories, [], summary, warnings, maxFolderDepth);
+
+  // Each loose audio file in the root is a separate single-file book
+  for (const audioFile of audioFiles) {
+    if (await bookExistsAtPath(`${folderUri}/${audioFile.name}`)) {
+      booksFound++;
+      continue;
+    }
+    const cueFile = findCueFile(audioFile, cueFiles, audioFiles.length);
+    if (await importSingleFileBook(audioFile, folderUri, rootCoverUri, cueFile, warnings)) {
+      summary.booksAdded++;
+      booksFound++;
+    }
+  }
+
+  return getImportResult(summary, booksFound, warnings);
+}
+
+async function listSAFDirectory(folderUri: string): Promise<DirectoryListing> {
   // Use SAF to read directory contents - returns array of URIs
   const contentUris = await StorageAccessFramework.readDirectoryAsync(folderUri);
-
-  const audioFiles: ScannedFile[] = [];
-  const imageFiles: ScannedFile[] = [];
-  const subdirectories: string[] = [];
+  const listing: DirectoryListing = { audioFiles: [], imageFiles: [], cueFiles: [], subdirectories: [] };
 
   for (const itemUri of contentUris) {
     // Decode the URI to get the filename
@@ -251,44 +583,65 @@ async function scanAndImportSAFFolder(folderUri: string): Promise<ImportResult>
 
     // Check if it's an audio file first
     if (isAudioFile(filename)) {
-      audioFiles.push({ name: filename, uri: itemUri });
+      listing.audioFiles.push({ name: filename, uri: itemUri });
     } else if (isImageFile(filename)) {
-      imageFiles.push({ name: filename, uri: itemUri });
+      listing.imageFiles.push({ name: filename, uri: itemUri });
+    } else if (isCueFile(filename)) {
+      listing.cueFiles.push({ name: filename, uri: itemUri });
     } else {
       // Try to read as directory - if it works, it's a directory
       try {
         await StorageAccessFramework.readDirectoryAsync(itemUri);
-        subdirectories.push(itemUri);
+        listing.subdirectories.push(itemUri);
       } catch {
         // Not a directory and not an audio file, skip it
       }
     }
   }
 
-  // Find a cover image for the root folder (for single-file books)
-  const rootCoverUri = findCoverImage(imageFiles);
+  return listing;
+}
+
+// A folder with audio files is a book. Books imported on an earlier scan are brought up
+// to date with their folder instead. Folders without audio (authors, series) are
+// searched for book folders in turn. Returns the number of books found.
+async function scanSAFSubdirectories(
+  subdirectories: string[],
+  parentNames: string[],
+  summary: ImportSummary,
+  warnings: string[],
+  maxDepth: number
+): Promise<number> {
+  let booksFound = 0;
 
-  // If there are subdirectories, treat each as a potential book (folder with chapters)
   for (const subdir of subdirectories) {
-    const imported = await importBookFromSAFDirectory(subdir);
-    if (imported) booksImported++;
-  }
+    const folderNames = [...parentNames, getFilenameFromUri(decodeURIComponent(subdir))];
+    const existing = await getBookByFolderPath(subdir);
+    if (existing) {
+      await rescanBookFromSAFDirectory(existing, subdir, folderNames, summary);
+      booksFound++;
+      continue;
+    }
 
-  // Each loose audio file in the root is a separate single-file book
-  for (const audioFile of audioFiles) {
-    const imported = await importSingleFileBook(audioFile, folderUri, rootCoverUri);
-    if (imported) booksImported++;
-  }
+    let listing: DirectoryListing;
+    try {
+      listing = await listSAFDirectory(subdir);
+    } catch (error) {
+      console.error("Error reading SAF directory:", error);
+      continue;
+    }
 
-  if (booksImported === 0) {
-    return { success: false, booksImported: 0, message: "No audiobooks found in the selected location" };
+    if (listing.audioFiles.length > 0) {
+      if (await importBookFromSAFDirectory(subdir, listing, folderNames, warnings)) {
+        summary.booksAdded++;
+        booksFound++;
+      }
+    } else if (folderNames.length < maxDepth) {
+      booksFound += await scanSAFSubdirectories(listing.subdirectories, folderNames, summary, warnings, maxDepth);
+    }
   }
 
-  return {
-    success: true,
-    booksImported,
-    message: `Successfully imported ${booksImported} book${booksImported === 1 ? "" : "s"}`,
-  };
+  return booksFound;
 }
 
 // Find a cover image from a list of image files
@@ -311,69 +664,133 @@ async function scanAndImportLocalFolder(folderUri: string): Promise<ImportResult
   const dirInfo = await FileSystem.getInfoAsync(folderUri);
 
   if (!dirInfo.exists) {
-    return { success: false, booksImported: 0, message: "Folder does not exist or is not accessible" };
+    return { success: false, summary: createImportSummary(), message: "Folder does not exist or is not accessible" };
   }
 
   if (!dirInfo.isDirectory) {
     // It's a single file, not a directory
     const filename = folderUri.split("/").pop() || "audio.mp3";
     if (isAudioFile(filename)) {
-      const imported = await importSingleFileBookLocal({ name: filename, uri: folderUri }, getParentDirectory(folderUri), null);
-      return {
-        success: imported,
-        booksImported: imported ? 1 : 0,
-        message: imported ? "Successfully imported 1 book" : "Failed to import audiobook",
-      };
+      const parentDir = getParentDirectory(folderUri);
+      const summary = createImportSummary();
+      const warnings: string[] = [];
+      if (await bookExistsAtPath(`${parentDir}/${filename}`)) {
+        return getImportResult(summary, 1, warnings);
+      }
+
+      const cueFile = await findSiblingCueFile(parentDir, filename);
+      const imported = await importSingleFileBookLocal({ name: filename, uri: folderUri }, parentDir, null, cueFile, warnings);
+      if (!imported) {
+        return { success: false, summary, message: "Failed to import audiobook" };
+      }
+      summary.booksAdded = 1;
+      return getImportResult(summary, 1, warnings);
+    }
+    return { success: false, summary: createImportSummary(), message: "Selected file is not an audio file" };
+  }
+
+  const summary = createImportSummary();
+  const warnings: string[] = [];
+
+  const { audioFiles, imageFiles, cueFiles, subdirectories } = await listLocalDirectory(folderUri);
+
+  // Find a cover image for the root folder
+  const rootCoverUri = findCoverImage(imageFiles);
+
+  // If there are subdirectories, treat each as a potential book
+  const { maxFolderDepth } = await loadPreferences();
+  let booksFound = await scanLocalSubdirectories(subdirectories, [], summary, warnings, maxFolderDepth);
+
+  // Each loose audio file in the root is a separate single-file book
+  for (const audioFile of audioFiles) {
+    if (await bookExistsAtPath(`${folderUri}/${audioFile.name}`)) {
+      booksFound++;
+      continue;
+    }
+    const cueFile = findCueFile(audioFile, cueFiles, audioFiles.length);
+    if (await importSingleFileBookLocal(audioFile, folderUri, rootCoverUri, cueFile, warnings)) {
+      summary.booksAdded++;
+      booksFound++;
     }
-    return { success: false, booksImported: 0, message: "Selected file is not an audio file" };
   }
 
-  let booksImported = 0;
+  return getImportResult(summary, booksFound, warnings);
+}
 
+async function listLocalDirectory(folderUri: string): Promise<DirectoryListing> {
   // List contents of the directory
   const contents = await FileSystem.readDirectoryAsync(folderUri);
-
-  const audioFiles: ScannedFile[] = [];
-  const imageFiles: ScannedFile[] = [];
-  const subdirectories: string[] = [];
+  const listing: DirectoryListing = { audioFiles: [], imageFiles: [], cueFiles: [], subdirectories: [] };
 
   for (const item of contents) {
     const itemUri = `${folderUri}/${item}`;
     const itemInfo = await FileSystem.getInfoAsync(itemUri);
 
     if (itemInfo.isDirectory) {
-      subdirectories.push(itemUri);
+      listing.subdirectories.push(itemUri);
     } else if (isAudioFile(item)) {
-      audioFiles.push({ name: item, uri: itemUri });
+      listing.audioFiles.push({ name: item, uri: itemUri });
     } else if (isImageFile(item)) {
-      imageFiles.push({ name: item, uri: itemUri });
+      listing.imageFiles.push({ name: item, uri: itemUri });
+    } else if (isCueFile(item)) {
+      listing.cueFiles.push({ name: item, uri: itemUri });
     }
   }
 
-  // Find a cover image for the root folder
-  const rootCoverUri = findCoverImage(imageFiles);
+  return listing;
+}
+
+// Same walk as scanSAFSubdirectories, over the local file system
+async function scanLocalSubdirectories(
+  subdirectories: string[],
+  parentNames: string[],
+  summary: ImportSummary,
+  warnings: string[],
+  maxDepth: number
+): Promise<number> {
+  let booksFound = 0;
 
-  // If there are subdirectories, treat each as a potential book
   for (const subdir of subdirectories) {
-    const imported = await importBookFromLocalDirectory(subdir);
-    if (imported) booksImported++;
-  }
+    const folderNames = [...parentNames, getFolderName(subdir)];
+    const existing = await getBookByFolderPath(subdir);
+    if (existing) {
+      await rescanBookFromLocalDirectory(existing, subdir, folderNames, summary);
+      booksFound++;
+      continue;
+    }
 
-  // Each loose audio file in the root is a separate single-file book
-  for (const audioFile of audioFiles) {
-    const imported = await importSingleFileBookLocal(audioFile, folderUri, rootCoverUri);
-    if (imported) booksImported++;
-  }
+    let listing: DirectoryListing;
+    try {
+      listing = await listLocalDirectory(subdir);
+    } catch (error) {
+      console.error("Error reading local directory:", error);
+      continue;
+    }
 
-  if (booksImported === 0) {
-    return { success: false, booksImported: 0, message: "No audiobooks found in the selected location" };
+    if (listing.audioFiles.length > 0) {
+      if (await importBookFromLocalDirectory(subdir, listing, folderNames, warnings)) {
+        summary.booksAdded++;
+        booksFound++;
+      }
+    } else if (folderNames.length < maxDepth) {
+      booksFound += await scanLocalSubdirectories(listing.subdirectories, folderNames, summary, warnings, maxDepth);
+    }
   }
 
-  return {
-    success: true,
-    booksImported,
-    message: `Successfully imported ${booksImported} book${booksImported === 1 ? "" : "s"}`,
-  };
+  return booksFound;
+}
+
+// A picked file may have a cue sheet with the same base name next to it
+async function findSiblingCueFile(directoryUri: string, filename: string): Promise<ScannedFile | null> {
+  const dotIndex = filename.lastIndexOf(".");
+  const name = `${dotIndex > 0 ? filename.substring(0, dotIndex) : filename}${CUE_EXTENSION}`;
+  const uri = `${directoryUri}/${name}`;
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists && !info.isDirectory ? { name, uri } : null;
+  } catch {
+    return null;
+  }
 }
 
 function getFilenameFromUri(uri: string): string {
@@ -419,41 +836,26 @@ async function copyFileLocal(
   const safeFilename = await getUniqueFilename(bookDir, filename);
   const destUri = `${bookDir}${safeFilename}`;
 
-  console.log(`Copying file from ${sourceUri} to ${destUri}`);
-
   await FileSystem.copyAsync({
     from: sourceUri,
     to: destUri,
   });
 
-  console.log(`File copied successfully to ${destUri}`);
   return destUri;
 }
 
-async function importBookFromSAFDirectory(directoryUri: string): Promise<boolean> {
+// folderNames runs from the scanned folder down to this one, for series layouts
+async function importBookFromSAFDirectory(
+  directoryUri: string,
+  listing: DirectoryListing,
+  folderNames: string[],
+  warnings: string[]
+): Promise<boolean> {
   try {
-    // Check if already imported
-    if (await bookExistsAtPath(directoryUri)) {
-      console.log("Book already exists:", directoryUri);
-      return false;
-    }
-
-    // Use SAF to read directory contents
-    const contentUris = await StorageAccessFramework.readDirectoryAsync(directoryUri);
-
-    const audioFiles: ScannedFile[] = [];
-    const imageFiles: ScannedFile[] = [];
-    for (const uri of contentUris) {
-      const filename = getFilenameFromUri(decodeURIComponent(uri));
-      if (isAudioFile(filename)) {
-        audioFiles.push({ name: filename, uri });
-      } else if (isImageFile(filename)) {
-        imageFiles.push({ name: filename, uri });
-      }
-    }
+    const { imageFiles, cueFiles } = listing;
 
     // Sort by filename
-    audioFiles.sort((a, b) => naturalSort(a.name, b.name));
+    const audioFiles = [...listing.audioFiles].sort((a, b) => naturalSort(a.name, b.name));
 
     if (audioFiles.length === 0) {
       return false;
@@ -462,20 +864,37 @@ async function importBookFromSAFDirectory(directoryUri: string): Promise<boolean
     // Find cover image in this directory
     const coverUri = findCoverImage(imageFiles);
 
-    const title = getBookTitleFromPath(decodeURIComponent(directoryUri));
-    console.log(`Importing book: ${title} with ${audioFiles.length} chapters`);
+    // Prefer tag data, falling back to folder and file names
+    const taggedFiles = sortByTrackNumber(await readTags(audioFiles));
+    const tags = getBookTags(taggedFiles);
+    const chapterTitles = getChapterTitles(taggedFiles);
+
+    // A single-file book gets its chapters from a cue sheet, or else from the markers
+    // embedded in the file
+    const cueSheet = audioFiles.length === 1
+      ? await loadCueSheet(findCueFile(audioFiles[0], cueFiles, 1), warnings)
+      : null;
+
+    const pathSeries = getSeriesFromPath(folderNames);
+    const series = getBookSeries(taggedFiles, pathSeries);
+    const title = cueSheet?.title ?? tags.title ?? pathSeries?.title ?? getBookTitleFromPath(decodeURIComponent(directoryUri));
+    const author = (cueSheet && getCueAuthor(cueSheet)) ?? tags.author ?? pathSeries?.author;
 
-    const bookId = await insertBook(title, directoryUri, undefined, coverUri || undefined);
+    const bookId = await insertBook(title, directoryUri, author, coverUri || undefined, series?.name, series?.index);
 
     // Create chapter entries using SAF URIs directly
-    for (let i = 0; i < audioFiles.length; i++) {
-      const file = audioFiles[i];
-      const chapterTitle = getChapterTitleFromFilename(file.name);
-      const localUri = getFileUriForSAF(file.uri);
-      await insertChapter(bookId, chapterTitle, localUri, i);
+    if (taggedFiles.length === 1) {
+      const localUri = getFileUriForSAF(taggedFiles[0].uri);
+      await insertSingleFileChapters(bookId, taggedFiles[0], localUri, chapterTitles[0], cueSheet);
+    } else {
+      for (let i = 0; i < taggedFiles.length; i++) {
+        const localUri = getFileUriForSAF(taggedFiles[i].uri);
+        const durationMs = (await readAudioDurationMs(taggedFiles[i].uri, taggedFiles[i].name)) ?? 0;
+        await insertChapter(bookId, chapterTitles[i], localUri, i, durationMs);
+      }
     }
+    await recalculateBookDuration(bookId);
 
-    console.log(`Book imported successfully: ${title}`);
     return true;
   } catch (error) {
     console.error("Error importing book from SAF directory:", error);
@@ -483,27 +902,54 @@ async function importBookFromSAFDirectory(directoryUri: string): Promise<boolean
   }
 }
 
-async function importSingleFileBook(file: ScannedFile, originalFolderUri: string, coverUri: string | null): Promise<boolean> {
+async function rescanBookFromSAFDirectory(
+  book: Book,
+  directoryUri: string,
+  folderNames: string[],
+  summary: ImportSummary
+): Promise<void> {
   try {
-    const uniquePath = `${originalFolderUri}/${file.name}`;
-
-    // Check if already imported
-    if (await bookExistsAtPath(uniquePath)) {
-      console.log("Book already exists:", uniquePath);
-      return false;
+    const contentUris = await StorageAccessFramework.readDirectoryAsync(directoryUri);
+    const audioFiles: ScannedFile[] = [];
+    for (const uri of contentUris) {
+      const filename = getFilenameFromUri(decodeURIComponent(uri));
+      if (isAudioFile(filename)) {
+        audioFiles.push({ name: filename, uri });
+      }
     }
+    audioFiles.sort((a, b) => naturalSort(a.name, b.name));
+
+    await syncBookChapters(book, audioFiles, async (file) => getFileUriForSAF(file.uri), summary);
+    await fillInBookSeries(book, audioFiles, folderNames);
+  } catch (error) {
+    console.error("Error rescanning book from SAF directory:", error);
+  }
+}
 
-    const title = getChapterTitleFromFilename(file.name);
-    console.log(`Importing single file book: ${title}`);
+async function importSingleFileBook(
+  file: ScannedFile,
+  originalFolderUri: string,
+  coverUri: string | null,
+  cueFile: ScannedFile | null,
+  warnings: string[]
+): Promise<boolean> {
+  try {
+    const uniquePath = `${originalFolderUri}/${file.name}`;
 
-    const bookId = await insertBook(title, uniquePath, undefined, coverUri || undefined);
+    const metadata = await readAudioMetadata(file.uri, file.name);
+    const cueSheet = await loadCueSheet(cueFile, warnings);
+    const title = cueSheet?.title ?? metadata.album ?? metadata.title ?? getChapterTitleFromFilename(file.name);
+    const author = (cueSheet && getCueAuthor(cueSheet)) ?? getAuthorFromTags(metadata);
+    const series = getSeriesFromTags([metadata]);
+
+    const bookId = await insertBook(title, uniquePath, author, coverUri || undefined, series?.name, series?.index);
 
     // Use SAF URI directly (no copying needed)
     const localUri = getFileUriForSAF(file.uri);
 
-    await insertChapter(bookId, title, localUri, 0);
+    await insertSingleFileChapters(bookId, file, localUri, metadata.title ?? title, cueSheet);
+    await recalculateBookDuration(bookId);
 
-    console.log(`Book imported successfully: ${title}`);
     return true;
   } catch (error) {
     console.error("Error importing single file book:", error);
@@ -512,49 +958,53 @@ async function importSingleFileBook(file: ScannedFile, originalFolderUri: string
 }
 
 // Local file system import functions (for iOS)
-async function importBookFromLocalDirectory(directoryUri: string): Promise<boolean> {
+async function importBookFromLocalDirectory(
+  directoryUri: string,
+  listing: DirectoryListing,
+  folderNames: string[],
+  warnings: string[]
+): Promise<boolean> {
   try {
-    // Check if already imported
-    if (await bookExistsAtPath(directoryUri)) {
-      console.log("Book already exists:", directoryUri);
-      return false;
-    }
-
-    const contents = await FileSystem.readDirectoryAsync(directoryUri);
-
-    const audioFiles = contents
-      .filter(isAudioFile)
-      .sort(naturalSort)
-      .map((name) => ({ name, uri: `${directoryUri}/${name}` }));
-
-    const imageFiles = contents
-      .filter(isImageFile)
-      .map((name) => ({ name, uri: `${directoryUri}/${name}` }));
-
-    if (audioFiles.length === 0) {
-      return false;
-    }
+    const { imageFiles, cueFiles } = listing;
+    const audioFiles = [...listing.audioFiles].sort((a, b) => naturalSort(a.name, b.name));
 
     // Find cover image in this directory
     const coverUri = findCoverImage(imageFiles);
 
-    const title = getBookTitleFromPath(directoryUri);
-    console.log(`Importing book: ${title} with ${audioFiles.length} chapters`);
+    // Prefer tag data, falling back to folder and file names
+    const taggedFiles = sortByTrackNumber(await readTags(audioFiles));
+    const tags = getBookTags(taggedFiles);
+    const chapterTitles = getChapterTitles(taggedFiles);
+
+    // A single-file book gets its chapters from a cue sheet, or else from the markers
+    // embedded in the file
+    const cueSheet = audioFiles.length === 1
+      ? await loadCueSheet(findCueFile(audioFiles[0], cueFiles, 1), warnings)
+      : null;
 
-    const bookId = await insertBook(title, directoryUri, undefined, coverUri || undefined);
+    const pathSeries = getSeriesFromPath(folderNames);
+    const series = getBookSeries(taggedFiles, pathSeries);
+    const title = cueSheet?.title ?? tags.title ?? pathSeries?.title ?? getBookTitleFromPath(directoryUri);
+    const author = (cueSheet && getCueAuthor(cueSheet)) ?? tags.author ?? pathSeries?.author;
+
+    const bookId = await insertBook(title, directoryUri, author, coverUri || undefined, series?.name, series?.index);
 
     // Copy each audio file and create chapter entries
-    for (let i = 0; i < audioFiles.length; i++) {
-      const file = audioFiles[i];
-      const chapterTitle = getChapterTitleFromFilename(file.name);
+    for (let i = 0; i < taggedFiles.length; i++) {
+      const file = taggedFiles[i];
 
       // Copy file to app storage
       const localUri = await copyFileLocal(file.uri, bookId, file.name);
 
-      await insertChapter(bookId, chapterTitle, localUri, i);
+      if (taggedFiles.length === 1) {
+        await insertSingleFileChapters(bookId, file, localUri, chapterTitles[i], cueSheet);
+      } else {
+        const durationMs = (await readAudioDurationMs(localUri, file.name)) ?? 0;
+        await insertChapter(bookId, chapterTitles[i], localUri, i, durationMs, 0, null, file.uri);
+      }
     }
+    await recalculateBookDuration(bookId);
 
-    console.log(`Book imported successfully: ${title}`);
     return true;
   } catch (error) {
     console.error("Error importing book from local directory:", error);
@@ -562,27 +1012,50 @@ async function importBookFromLocalDirectory(directoryUri: string): Promise<boole
   }
 }
 
-async function importSingleFileBookLocal(file: ScannedFile, originalFolderUri: string, coverUri: string | null): Promise<boolean> {
+async function rescanBookFromLocalDirectory(
+  book: Book,
+  directoryUri: string,
+  folderNames: string[],
+  summary: ImportSummary
+): Promise<void> {
   try {
-    const uniquePath = `${originalFolderUri}/${file.name}`;
+    const contents = await FileSystem.readDirectoryAsync(directoryUri);
+    const audioFiles = contents
+      .filter(isAudioFile)
+      .sort(naturalSort)
+      .map((name) => ({ name, uri: `${directoryUri}/${name}` }));
 
-    // Check if already imported
-    if (await bookExistsAtPath(uniquePath)) {
-      console.log("Book already exists:", uniquePath);
-      return false;
-    }
+    await syncBookChapters(book, audioFiles, (file) => copyFileLocal(file.uri, book.id, file.name), summary);
+    await fillInBookSeries(book, audioFiles, folderNames);
+  } catch (error) {
+    console.error("Error rescanning book from local directory:", error);
+  }
+}
 
-    const title = getChapterTitleFromFilename(file.name);
-    console.log(`Importing single file book: ${title}`);
+async function importSingleFileBookLocal(
+  file: ScannedFile,
+  originalFolderUri: string,
+  coverUri: string | null,
+  cueFile: ScannedFile | null,
+  warnings: string[]
+): Promise<boolean> {
+  try {
+    const uniquePath = `${originalFolderUri}/${file.name}`;
 
-    const bookId = await insertBook(title, uniquePath, undefined, coverUri || undefined);
+    const metadata = await readAudioMetadata(file.uri, file.name);
+    const cueSheet = await loadCueSheet(cueFile, warnings);
+    const title = cueSheet?.title ?? metadata.album ?? metadata.title ?? getChapterTitleFromFilename(file.name);
+    const author = (cueSheet && getCueAuthor(cueSheet)) ?? getAuthorFromTags(metadata);
+    const series = getSeriesFromTags([metadata]);
+
+    const bookId = await insertBook(title, uniquePath, author, coverUri || undefined, series?.name, series?.index);
 
     // Copy file to app storage
     const localUri = await copyFileLocal(file.uri, bookId, file.name);
 
-    await insertChapter(bookId, title, localUri, 0);
+    await insertSingleFileChapters(bookId, file, localUri, metadata.title ?? title, cueSheet);
+    await recalculateBookDuration(bookId);
 
-    console.log(`Book imported successfully: ${title}`);
     return true;
   } catch (error) {
     console.error("Error importing single file book:", error);
@@ -590,11 +1063,74 @@ async function importSingleFileBookLocal(file: ScannedFile, originalFolderUri: s
   }
 }
 
-// Clean up copied files for a deleted book (iOS only)
+// Fill in chapter lengths for books imported before durations were read at import
+// time. Returns the number of books whose total length is now known.
+export async function recomputeMissingDurations(): Promise<number> {
+  const chapters = await getChaptersWithoutDuration();
+  if (chapters.length === 0) return 0;
+
+  const fileDurations = new Map<string, number | null>();
+  const bookIds = new Set<number>();
+
+  for (const chapter of chapters) {
+    try {
+      let fileDurationMs = fileDurations.get(chapter.file_path);
+      if (fileDurationMs === undefined) {
+        fileDurationMs = await readAudioDurationMs(chapter.file_path, getFilenameFromUri(chapter.file_path));
+        fileDurations.set(chapter.file_path, fileDurationMs);
+      }
+      if (fileDurationMs === null) continue;
+
+      // The last embedded chapter or cue track runs to the end of its file
+      if (chapter.start_ms > 0) {
+        await updateChapterDuration(chapter.id, fileDurationMs - chapter.start_ms, fileDurationMs);
+      } else {
+        await updateChapterDuration(chapter.id, fileDurationMs);
+      }
+      bookIds.add(chapter.book_id);
+    } catch (error) {
+      console.warn(`Error recomputing duration of chapter ${chapter.id}:`, error);
+    }
+  }
+
+  let booksUpdated = 0;
+  for (const bookId of bookIds) {
+    if ((await recalculateBookDuration(bookId)) !== null) booksUpdated++;
+  }
+  return booksUpdated;
+}
+
+// Images in the folder a book was imported from, for choosing a cover. Single-file
+// books are stored by their file path, so their folder is the file's parent.
+export async function listBookFolderImages(book: Book): Promise<ScannedFile[]> {
+  const isSingleFile = isAudioFile(getFilenameFromUri(book.folder_path));
+  const directoryUri = isSingleFile ? getParentDirectory(book.folder_path) : book.folder_path;
+
+  try {
+    const listing = Platform.OS === "android" && directoryUri.startsWith("content://")
+      ? await listSAFDirectory(directoryUri)
+      : await listLocalDirectory(directoryUri);
+    return listing.imageFiles;
+  } catch (error) {
+    console.warn("Error listing book folder images:", error);
+    return [];
+  }
+}
+
+// Picked photos live in a temporary cache, so keep a copy alongside the book's files
+export async function saveBookCover(bookId: number, sourceUri: string): Promise<string> {
+  const bookDir = await createBookDirectory(bookId);
+  const extension = IMAGE_EXTENSIONS.find((ext) => sourceUri.toLowerCase().endsWith(ext)) ?? ".jpg";
+  const destUri = `${bookDir}cover-${Date.now()}${extension}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: destUri });
+  return destUri;
+}
+
+// Clean up copied files for a deleted book
 // Note: This only removes files from the app's private storage.
 // Original source files are NEVER deleted - only the copies made during import.
-// On Android (SAF), files are played directly from source and not copied,
-// so this function has no effect.
+// On Android (SAF), audio is played directly from source and not copied, so
+// only covers picked from the photo library are removed.
 export async function deleteBookFiles(bookId: number): Promise<void> {
   try {
     const audiobooksDir = await getAudiobooksDirectory();
@@ -0,0 +1,66 @@
+import { AudioMetadata } from "./metadata";
+
+export interface SeriesInfo {
+  name: string;
+  index: number | null;
+}
+
+// "3", "3.5", "03", "#3", "Book 3", "Vol. 3", "Volume 3", "Part 3"
+const INDEX_PATTERN = /^(?:#|(?:book|vol\.?|volume|part|no\.?)\s*)?(\d+(?:\.\d+)?)$/i;
+
+// "Series Name #3", "Series Name, Book 3", "Series Name - Vol. 3". A bare trailing
+// number is left alone: "Catch 22" is a title, not volume 22.
+const GROUPING_PATTERN = /^(.+?)[\s,:;-]*(?:#|(?:book|vol\.?|volume|part|no\.?)\s*)(\d+(?:\.\d+)?)$/i;
+
+// A book folder that starts with its number: "Book 3 Title", "01 - Title", "1. Title"
+// or "01 Title". Plain numbers need punctuation or a leading zero so "2001 A Space
+// Odyssey" and "100 Years of Solitude" keep their names.
+const NUMBERED_FOLDER_PATTERN =
+  /^(?:(?:#|(?:book|vol\.?|volume|part)\s*)(\d+(?:\.\d+)?)\s*[-–._):]?|(\d{1,3}(?:\.\d+)?)\s*[-–._)]|(0\d*))\s*(.+)$/i;
+
+export function parseSeriesIndex(value: string | undefined): number | null {
+  const match = value?.trim().match(INDEX_PATTERN);
+  return match ? Number(match[1]) : null;
+}
+
+// Splits a grouping tag into the series name and volume number when it carries one
+function parseGrouping(grouping: string): SeriesInfo {
+  const match = grouping.match(GROUPING_PATTERN);
+  return match ? { name: match[1].trim(), index: Number(match[2]) } : { name: grouping, index: null };
+}
+
+// Dedicated series tags win over the grouping field. Pass the tags of every file in
+// the book; most books only carry them on some.
+export function getSeriesFromTags(metadata: AudioMetadata[]): SeriesInfo | null {
+  const tagged = metadata.find((m) => m.series);
+  if (tagged?.series) {
+    return { name: tagged.series, index: parseSeriesIndex(tagged.seriesPart) };
+  }
+
+  const grouping = metadata.find((m) => m.grouping)?.grouping;
+  return grouping ? parseGrouping(grouping) : null;
+}
+
+export interface PathSeries {
+  series: SeriesInfo;
+  // The folder name without its number, for books that have no title tag
+  title: string;
+  // From Author/Series/01 - Title layouts
+  author?: string;
+}
+
+// Folder names run from the scanned folder down to the book's own folder. A numbered
+// book folder inside another folder reads as Series/01 - Title.
+export function getSeriesFromPath(folderNames: string[]): PathSeries | null {
+  if (folderNames.length < 2) return null;
+
+  const bookFolder = folderNames[folderNames.length - 1];
+  const match = bookFolder.match(NUMBERED_FOLDER_PATTERN);
+  if (!match) return null;
+
+  return {
+    series: { name: folderNames[folderNames.length - 2], index: Number(match[1] ?? match[2] ?? match[3]) },
+    title: match[4].trim(),
+    author: folderNames.length >= 3 ? folderNames[folderNames.length - 3] : undefined,
+  };
+}
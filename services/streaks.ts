@@ -0,0 +1,43 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakStats {
+  // Listening days in the streak that is still going, 0 if it has lapsed
+  current: number;
+  longest: number;
+}
+
+// Whole calendar days from one YYYY-MM-DD to another
+function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+// Streaks count the days that met the goal. Up to `graceDays` missed days in a row
+// don't break a streak, though they don't add to it either. Today only breaks the
+// current streak once it's over, so a streak is still current before the day's listening.
+export function computeStreaks(
+  days: { date: string; duration_ms: number }[],
+  today: string,
+  dailyGoalMinutes: number,
+  graceDays: number
+): StreakStats {
+  // With no goal set any listening counts
+  const goalMs = Math.max(1, dailyGoalMinutes * 60000);
+  const dates = days
+    .filter((day) => day.duration_ms >= goalMs && day.date <= today)
+    .map((day) => day.date)
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < dates.length; i++) {
+    const continues = i > 0 && daysBetween(dates[i - 1], dates[i]) - 1 <= graceDays;
+    run = continues ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const last = dates[dates.length - 1];
+  const isCurrent = last !== undefined && daysBetween(last, today) <= graceDays + 1;
+  return { current: isCurrent ? run : 0, longest };
+}